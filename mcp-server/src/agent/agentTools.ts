@@ -0,0 +1,345 @@
+// Agent Tools - Functions the model can call during a chat turn when it supports tool calling.
+// Each tool works on the conversation's current chart and returns text that is fed back to the model.
+// These are separate from the ToolRegistry in tools/: registry tools are whole requests for MCP
+// clients (tools/list, tools/call) that return content blocks, while these run inside one turn
+// against its AgentToolContext. Registry tools still reach chat through Tool.matchMessage.
+
+import type { ChartSpec } from './index.js'
+import { ChartGenerator, ChartData, ChartSpecParseResult, DataSource } from './chartGenerator.js'
+import { FunctionTool } from './ollama.js'
+import { ParsedTable } from './tableParser.js'
+import { TRANSFORMS_SCHEMA } from './dataTransforms.js'
+import type { DatasetInfo } from '../state/datasetLibrary.js'
+import { DatabaseInfo, describeDatabase } from '../state/sqliteSource.js'
+import { JsonSchema } from '../mcp/protocol.js'
+
+export interface AgentToolContext {
+  chartGenerator: ChartGenerator
+  // The chart the conversation is about; replaced whenever a tool renders a new one
+  currentChart?: ChartSpec
+  // Table the user pasted, in this message or earlier, or the dataset the message names
+  table?: ParsedTable
+  // Render the spec, deliver it to the client and make it the current chart. Resolves to
+  // where its values came from, judged by sourceData when transforms computed them.
+  renderChart(spec: ChartSpec, claimedSource?: DataSource, sourceData?: ChartData): Promise<DataSource>
+  maxDashboardCharts: number
+  // Render validated charts as one dashboard; the last becomes the current chart.
+  // Resolves to each chart's data source.
+  renderDashboard(title: string, charts: Array<Exclude<ChartSpecParseResult, { error: string }>>): Promise<DataSource[]>
+  listDatasets(): Promise<DatasetInfo[]>
+  // A dataset file from the library by name; undefined when there is none
+  loadDataset(name: string): Promise<ParsedTable | undefined>
+  listDatabases(): Promise<DatabaseInfo[]>
+  // Run a read-only SELECT, showing it to the user; throws with the database's error
+  queryDatabase(database: string, sql: string): Promise<ParsedTable>
+}
+
+export interface AgentTool extends FunctionTool {
+  // Throw to report a problem to the model, which can then correct its call
+  run(args: Record<string, unknown>, context: AgentToolContext): Promise<string>
+}
+
+const CHART_TYPE_SCHEMA: JsonSchema = {
+  type: 'string',
+  enum: ['bar', 'line', 'pie', 'doughnut'],
+  description: 'Chart type'
+}
+
+const DATASETS_SCHEMA: JsonSchema = {
+  type: 'array',
+  description: 'Series to plot; every dataset has one number per label',
+  items: {
+    type: 'object',
+    properties: {
+      label: { type: 'string' },
+      data: { type: 'array', items: { type: 'number' } }
+    },
+    required: ['label', 'data']
+  }
+}
+
+const STRING_ARRAY_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string' } }
+
+export const renderChartTool: AgentTool = {
+  name: 'render_chart',
+  description: 'Render a new chart and show it to the user',
+  parameters: {
+    type: 'object',
+    properties: {
+      type: CHART_TYPE_SCHEMA,
+      title: { type: 'string', description: 'Descriptive chart title' },
+      labels: { ...STRING_ARRAY_SCHEMA, description: 'Category names along the axis or pie slices' },
+      datasets: DATASETS_SCHEMA,
+      source: {
+        type: 'string',
+        enum: ['user', 'sample'],
+        description: 'user when the values are data the user provided, sample when they are made up'
+      },
+      sourceNote: { type: 'string', description: 'Which data the values came from' },
+      transforms: TRANSFORMS_SCHEMA
+    },
+    required: ['type', 'labels', 'datasets']
+  },
+
+  async run(args, { chartGenerator, renderChart }) {
+    const result = chartGenerator.validateChartSpec(args)
+    if ('error' in result) {
+      throw new Error(result.error)
+    }
+
+    const { data, options } = result.spec
+    const dataSource = await renderChart(result.spec, result.claimedSource, result.sourceData)
+    return `Rendered a ${options.type} chart "${options.title}" with ${data.labels.length} labels and ` +
+      `${data.datasets.length} dataset(s). It is now the current chart. ` +
+      (dataSource.kind === 'user'
+        ? 'Its values match data the user provided.'
+        : 'Its values are not the user\'s data; tell the user they are illustrative.')
+  }
+}
+
+export const modifyChartTool: AgentTool = {
+  name: 'modify_chart',
+  description: 'Change the current chart: type, title, color, labels or datasets. Only the given fields change.',
+  parameters: {
+    type: 'object',
+    properties: {
+      type: CHART_TYPE_SCHEMA,
+      title: { type: 'string' },
+      color: { type: 'string', description: 'Color name or hex code for every dataset' },
+      labels: { ...STRING_ARRAY_SCHEMA, description: 'Replacement category names' },
+      datasets: { ...DATASETS_SCHEMA, description: 'Datasets to add, or to replace when the label already exists' },
+      removeDatasets: { ...STRING_ARRAY_SCHEMA, description: 'Labels of datasets to remove' },
+      removeLabels: { ...STRING_ARRAY_SCHEMA, description: 'Categories to remove' }
+    }
+  },
+
+  async run(args, { chartGenerator, currentChart, renderChart }) {
+    if (!currentChart) {
+      throw new Error('There is no chart to modify; use render_chart first')
+    }
+    const modification = chartGenerator.normalizeModification(args)
+    if (!modification) {
+      throw new Error('No valid changes were given')
+    }
+
+    const updated = chartGenerator.applyModification(currentChart.data, currentChart.options, modification)
+    await renderChart(updated)
+    return `Updated the chart (${Object.keys(modification).join(', ')}). It now has ${updated.data.labels.length} labels.`
+  }
+}
+
+export const transformDataTool: AgentTool = {
+  name: 'transform_data',
+  description: 'Reshape the current chart\'s data and re-render it: sort, top N with an "Other" category, filter, merge duplicate labels, pivot, percent of total, cumulative sum or moving average',
+  parameters: {
+    type: 'object',
+    properties: {
+      transforms: TRANSFORMS_SCHEMA
+    },
+    required: ['transforms']
+  },
+
+  async run(args, { chartGenerator, currentChart, renderChart }) {
+    if (!currentChart) {
+      throw new Error('There is no chart to transform; use render_chart first')
+    }
+    if (!Array.isArray(args.transforms) || args.transforms.length === 0) {
+      throw new Error('Give at least one step in "transforms", e.g. [{"op": "sort"}]')
+    }
+
+    const result = chartGenerator.transformData(currentChart.data, args.transforms)
+    if ('error' in result) {
+      throw new Error(result.error)
+    }
+    await renderChart({ data: result.data, options: currentChart.options }, undefined, currentChart.data)
+    return `Re-rendered the chart with ${result.data.labels.length} labels (${result.data.labels.join(', ')}) and ` +
+      `datasets ${result.data.datasets.map(ds => `"${ds.label}"`).join(', ')}`
+  }
+}
+
+export const getChartDataTool: AgentTool = {
+  name: 'get_chart_data',
+  description: 'Read the current chart\'s type, title, labels and values, e.g. to answer questions about it or export it',
+  parameters: { type: 'object', properties: {} },
+
+  async run(_args, { currentChart }) {
+    if (!currentChart) {
+      return 'There is no chart yet.'
+    }
+    return JSON.stringify({
+      type: currentChart.options.type,
+      title: currentChart.options.title,
+      labels: currentChart.data.labels,
+      datasets: currentChart.data.datasets.map(ds => ({ label: ds.label, data: ds.data }))
+    })
+  }
+}
+
+export const chartTableTool: AgentTool = {
+  name: 'chart_table',
+  description: 'Chart the table the user pasted, or a dataset file from the library. Pick the columns; the values are read from the table exactly.',
+  parameters: {
+    type: 'object',
+    properties: {
+      dataset: { type: 'string', description: 'Dataset file name from list_datasets; omit to chart the pasted table' },
+      type: CHART_TYPE_SCHEMA,
+      title: { type: 'string', description: 'Descriptive chart title' },
+      labelColumn: { type: 'string', description: 'Column whose values become the labels' },
+      valueColumns: { ...STRING_ARRAY_SCHEMA, description: 'Number columns to plot, one dataset each' },
+      transforms: TRANSFORMS_SCHEMA
+    },
+    required: ['labelColumn', 'valueColumns']
+  },
+
+  async run(args, { chartGenerator, table: pasted, renderChart, loadDataset }) {
+    const table = args.dataset ? await loadDataset(String(args.dataset)) : pasted
+    if (!table) {
+      throw new Error(args.dataset
+        ? `There is no dataset named "${args.dataset}"; call list_datasets for the available ones`
+        : 'The user has not pasted a table; pass a dataset or use render_chart')
+    }
+    const result = chartGenerator.chartFromTable(table, args)
+    if ('error' in result) {
+      throw new Error(result.error)
+    }
+
+    const { data, options } = result.spec
+    await renderChart(result.spec, result.claimedSource, result.sourceData)
+    return `Rendered a ${options.type} chart "${options.title}" of ${data.datasets.map(ds => `"${ds.label}"`).join(', ')} ` +
+      `by "${args.labelColumn}" from ${data.labels.length} rows of ${table.name || 'the table'}. It is now the current chart.`
+  }
+}
+
+export const listDatasetsTool: AgentTool = {
+  name: 'list_datasets',
+  description: 'List the dataset files in the library with their columns, to chart one with chart_table',
+  parameters: { type: 'object', properties: {} },
+
+  async run(_args, { listDatasets }) {
+    const datasets = await listDatasets()
+    if (datasets.length === 0) {
+      return 'The dataset library is empty.'
+    }
+    return datasets
+      .map(dataset => `${dataset.name} (${dataset.rowCount} rows): ` +
+        dataset.columns.map(column => `"${column.name}" ${column.type}`).join(', '))
+      .join('\n')
+  }
+}
+
+export const listDatabasesTool: AgentTool = {
+  name: 'list_databases',
+  description: 'List the SQLite databases with their tables and columns, to query one with query_database',
+  parameters: { type: 'object', properties: {} },
+
+  async run(_args, { listDatabases }) {
+    const databases = await listDatabases()
+    if (databases.length === 0) {
+      return 'No databases are registered.'
+    }
+    return databases.map(describeDatabase).join('\n\n')
+  }
+}
+
+export const queryDatabaseTool: AgentTool = {
+  name: 'query_database',
+  description: 'Chart the result of a read-only SQLite SELECT. The first column becomes the labels, every other (numeric) column a dataset.',
+  parameters: {
+    type: 'object',
+    properties: {
+      database: { type: 'string', description: 'Database name from list_databases' },
+      sql: { type: 'string', description: 'A single SELECT; aggregate with GROUP BY to at most 50 rows' },
+      type: CHART_TYPE_SCHEMA,
+      title: { type: 'string', description: 'Descriptive chart title' },
+      transforms: TRANSFORMS_SCHEMA
+    },
+    required: ['database', 'sql']
+  },
+
+  async run(args, { chartGenerator, renderChart, queryDatabase }) {
+    const sql = String(args.sql ?? '')
+    const table = await queryDatabase(String(args.database ?? ''), sql)
+    if (table.rows.length === 0) {
+      throw new Error('The query returned no rows')
+    }
+    const [label, ...values] = table.columns
+    const result = chartGenerator.chartFromTable(table, {
+      type: args.type,
+      title: args.title,
+      labelColumn: label.name,
+      valueColumns: values.map(column => column.name),
+      transforms: args.transforms
+    })
+    if ('error' in result) {
+      throw new Error(`${result.error}. The first column must be the labels and the others numeric.`)
+    }
+
+    const { data, options } = result.spec
+    await renderChart(result.spec, { ...(result.claimedSource || { kind: 'user' }), query: sql }, result.sourceData)
+    return `Rendered a ${options.type} chart "${options.title}" from ${data.labels.length} rows of ${table.name}. It is now the current chart.`
+  }
+}
+
+export const renderDashboardTool: AgentTool = {
+  name: 'render_dashboard',
+  description: 'Render several related charts as one dashboard, e.g. the same measure by region, by product and by month',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Dashboard title' },
+      charts: {
+        type: 'array',
+        description: 'The charts, each with the fields of render_chart',
+        items: {
+          type: 'object',
+          properties: {
+            type: CHART_TYPE_SCHEMA,
+            title: { type: 'string' },
+            labels: STRING_ARRAY_SCHEMA,
+            datasets: DATASETS_SCHEMA,
+            transforms: TRANSFORMS_SCHEMA
+          },
+          required: ['type', 'labels', 'datasets']
+        }
+      },
+      source: {
+        type: 'string',
+        enum: ['user', 'sample'],
+        description: 'user when the values are data the user provided, sample when they are made up'
+      },
+      sourceNote: { type: 'string', description: 'Which data the values came from' }
+    },
+    required: ['charts']
+  },
+
+  async run(args, { chartGenerator, maxDashboardCharts, renderDashboard }) {
+    const result = chartGenerator.validateDashboardSpec(args, maxDashboardCharts)
+    if ('error' in result) {
+      throw new Error(result.error)
+    }
+    const { title, charts, skipped } = result.dashboard
+    if (skipped.length > 0) {
+      throw new Error(`Nothing was rendered. Fix these charts and call again: ${skipped.join('; ')}`)
+    }
+
+    const sources = await renderDashboard(title, charts)
+    const samples = charts.filter((_, i) => sources[i].kind === 'sample').map(chart => `"${chart.spec.options.title}"`)
+    return `Rendered the dashboard "${title}" with ${charts.length} charts: ` +
+      `${charts.map(chart => `"${chart.spec.options.title}" (${chart.spec.options.type})`).join(', ')}. The last one is now the current chart. ` +
+      (samples.length === 0
+        ? 'Their values match data the user provided.'
+        : `${samples.join(', ')} ${samples.length === 1 ? 'is' : 'are'} not the user's data; tell the user ${samples.length === 1 ? 'it is' : 'they are'} illustrative.`)
+  }
+}
+
+export const AGENT_TOOLS: AgentTool[] = [
+  renderChartTool,
+  renderDashboardTool,
+  modifyChartTool,
+  transformDataTool,
+  getChartDataTool,
+  chartTableTool,
+  listDatasetsTool,
+  listDatabasesTool,
+  queryDatabaseTool
+]
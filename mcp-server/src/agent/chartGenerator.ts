@@ -1,8 +1,15 @@
 // Chart Generator using @napi-rs/canvas (local, no external API)
 
-import { createCanvas } from '@napi-rs/canvas'
+import { createCanvas, loadImage } from '@napi-rs/canvas'
 import { Chart, registerables } from 'chart.js'
 import { WatermarkGenerator } from './watermarkGenerator.js'
+import { ParsedTable, validateMapping, tableToChartData } from './tableParser.js'
+import { validateTransforms, applyTransforms, describeTransforms } from './dataTransforms.js'
+import { RequestCancelledError, isCancellationError, throwIfCancelled } from '../utils/cancellation.js'
+import { createLogger } from '../utils/logger.js'
+import { metrics } from '../utils/metrics.js'
+
+const logger = createLogger('ChartGenerator')
 
 // Register Chart.js components
 Chart.register(...registerables)
@@ -29,6 +36,71 @@ export interface ChartOptions {
   backgroundDescription?: string // Store the generated background description for watermark reuse
 }
 
+/**
+ * Incremental change to an existing chart, as extracted from a follow-up request
+ * like "make the bars blue" or "add a 2024 dataset". Every field is optional;
+ * only the parts that are present are applied.
+ */
+export interface ChartModification {
+  type?: ChartOptions['type']
+  title?: string
+  // Color applied to every dataset
+  color?: string
+  // Colors keyed by dataset label
+  colors?: Record<string, string>
+  // Replaces the category labels; existing datasets are padded or truncated to match
+  labels?: string[]
+  // Datasets to add, or to replace when a dataset with the same label exists
+  datasets?: Array<{ label: string; data: number[]; color?: string }>
+  removeDatasets?: string[]
+  removeLabels?: string[]
+}
+
+/**
+ * Where a chart's numbers came from
+ */
+export interface DataSource {
+  // user: values the user supplied in the conversation; sample: illustrative values
+  kind: 'user' | 'sample'
+  // Where in the conversation the values came from, in the model's words
+  note?: string
+  // The SELECT the values were read with, for charts of database queries
+  query?: string
+}
+
+/**
+ * A chart spec parsed from an LLM response, or why the response couldn't be used.
+ * claimedSource is what the model says about the data, when it says anything.
+ * sourceData is the data before its transforms, which the source is checked against.
+ */
+export type ChartSpecParseResult =
+  | { spec: { data: ChartData; options: ChartOptions }; claimedSource?: DataSource; sourceData?: ChartData }
+  | { error: string }
+
+/**
+ * The charts of a dashboard plan that passed validation; skipped says why the others were dropped
+ */
+export type DashboardParseResult =
+  | { dashboard: { title: string; charts: Array<Exclude<ChartSpecParseResult, { error: string }>>; skipped: string[] } }
+  | { error: string }
+
+/**
+ * A caller's chart data or options that failed validation; the message says what to fix
+ */
+export class ChartDataError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ChartDataError'
+  }
+}
+
+// Space between the charts of a composed dashboard, and the height of its title bar
+const DASHBOARD_GAP = 16
+const DASHBOARD_TITLE_HEIGHT = 56
+// Bounds of a chart's width and height in pixels, so a request can't allocate a huge canvas
+const MIN_CHART_SIZE = 100
+const MAX_CHART_SIZE = 4096
+
 export class ChartGenerator {
   private defaultWidth = 462  // 578 * 0.8 (20% smaller)
   private defaultHeight = 347  // 434 * 0.8 (20% smaller)
@@ -40,9 +112,24 @@ export class ChartGenerator {
     this.watermarkGenerator = new WatermarkGenerator(ollamaClient)
   }
 
-  async generateFromData(data: ChartData, options: ChartOptions): Promise<string> {
-    const width = options.width || this.defaultWidth
-    const height = options.height || this.defaultHeight
+  async generateFromData(data: ChartData, options: ChartOptions, signal?: AbortSignal): Promise<string> {
+    const endTimer = metrics.chartRenderDuration.startTimer({ type: options.type })
+    const imageBase64 = await this.render(data, options, signal)
+    endTimer()
+    return imageBase64
+  }
+
+  private async render(data: ChartData, options: ChartOptions, signal?: AbortSignal): Promise<string> {
+    const width = clampSize(options.width || this.defaultWidth)
+    const height = clampSize(options.height || this.defaultHeight)
+    logger.info('Rendering chart', {
+      chartType: options.type,
+      labels: data.labels.length,
+      datasets: data.datasets.length,
+      width,
+      height
+    })
+    logger.debug('Chart data', { chartData: data })
 
     // Create canvas using @napi-rs/canvas
     const canvas = createCanvas(width, height)
@@ -53,12 +140,14 @@ export class ChartGenerator {
     let backgroundCanvas = null
     if (hasBackground) {
       // Create background on separate canvas first
-      const bgResult = await this.generateBackgroundImage(options.backgroundImagePrompt!, width, height)
+      const bgResult = await this.generateBackgroundImage(options.backgroundImagePrompt!, width, height, signal)
       if (bgResult) {
         backgroundCanvas = bgResult.canvas
         options.backgroundDescription = bgResult.description
       }
     }
+
+    throwIfCancelled(signal)
     
     // Set default white background (will be covered by gradient if present)
     ctx.fillStyle = options.backgroundColor || '#ffffff'
@@ -68,7 +157,7 @@ export class ChartGenerator {
     const coloredData = this.applyDefaultColors(data, options.type)
 
     // Create chart and wait for render to complete
-    return new Promise<string>((resolve) => {
+    return new Promise<string>((resolve, reject) => {
       new Chart(ctx as unknown as CanvasRenderingContext2D, {
         type: options.type,
         data: coloredData,
@@ -125,13 +214,19 @@ export class ChartGenerator {
 
       // Give Chart.js time to render before capturing
       setTimeout(() => {
+        // Skip background and watermark work for a request that was cancelled while rendering
+        if (signal?.aborted) {
+          reject(new RequestCancelledError())
+          return
+        }
+
         // Apply background AFTER Chart.js renders (composite behind)
         if (backgroundCanvas) {
           ctx.save()
           ctx.globalCompositeOperation = 'destination-over' // Draw behind existing content
           ctx.drawImage(backgroundCanvas, 0, 0, width, height)
           ctx.restore()
-          console.log('[ChartGenerator] Background applied after chart render')
+          logger.debug('Background applied after chart render')
         }
         
         // Apply watermark: use background description if available, otherwise use watermarkPrompt
@@ -142,29 +237,33 @@ export class ChartGenerator {
           // If we have a background description, use it directly as watermark text (no Ollama call needed)
           // Otherwise, use the watermark generator which will call Ollama
           if (options.backgroundDescription) {
-            console.log('[ChartGenerator] Using background description as watermark:', options.backgroundDescription)
+            logger.debug('Using background description as watermark', { watermark: options.backgroundDescription })
             // Apply watermark directly using the background description
             this.watermarkGenerator.applyWatermarkTextToCanvas(ctx, width, height, options.backgroundDescription)
               .then(() => {
-                console.log('[ChartGenerator] Watermark (from background) applied successfully')
+                logger.debug('Watermark (from background) applied')
                 const buffer = canvas.toBuffer('image/png')
                 resolve(buffer.toString('base64'))
               })
               .catch((error) => {
-                console.error('[ChartGenerator] Watermark application error:', error)
+                logger.error('Watermark application error', { error })
                 const buffer = canvas.toBuffer('image/png')
                 resolve(buffer.toString('base64'))
               })
           } else {
             // Use Ollama to generate watermark text
-            this.watermarkGenerator.applyWatermarkToCanvas(ctx, width, height, options.watermarkPrompt!)
+            this.watermarkGenerator.applyWatermarkToCanvas(ctx, width, height, options.watermarkPrompt!, signal)
               .then(() => {
-                console.log('[ChartGenerator] Watermark applied successfully')
+                logger.debug('Watermark applied')
                 const buffer = canvas.toBuffer('image/png')
                 resolve(buffer.toString('base64'))
               })
               .catch((error) => {
-                console.error('[ChartGenerator] Watermark application error:', error)
+                if (isCancellationError(error)) {
+                  reject(error)
+                  return
+                }
+                logger.error('Watermark application error', { error })
                 const buffer = canvas.toBuffer('image/png')
                 resolve(buffer.toString('base64'))
               })
@@ -181,17 +280,17 @@ export class ChartGenerator {
    * Generate background canvas (moved to be used after Chart.js renders)
    * This method is now called separately to get the background canvas
    */
-  private async generateBackgroundImage(prompt: string, width: number, height: number): Promise<{ canvas: any; description: string } | null> {
+  private async generateBackgroundImage(prompt: string, width: number, height: number, signal?: AbortSignal): Promise<{ canvas: any; description: string } | null> {
     try {
       // Use Ollama to generate a description of the background
       const backgroundPrompt = `Describe a subtle, professional background image for a data chart based on: "${prompt}". 
 Respond with 2-3 words describing colors, patterns, or themes (e.g., "blue gradient", "light grid", "subtle texture"). 
 Respond with ONLY the description, no explanations.`
 
-      const response = await this.ollamaClient.generate(backgroundPrompt)
+      const response = await this.ollamaClient.generate(backgroundPrompt, { signal })
       const description = response.trim().toLowerCase()
       
-      console.log('[ChartGenerator] Ollama background description:', description)
+      logger.info('Background description generated', { description })
 
       // Create a background canvas based on the description
       const bgCanvas = createCanvas(width, height)
@@ -208,7 +307,10 @@ Respond with ONLY the description, no explanations.`
 
       return { canvas: bgCanvas, description }
     } catch (error) {
-      console.error('[ChartGenerator] Error generating background image:', error)
+      if (isCancellationError(error)) {
+        throw error
+      }
+      logger.error('Error generating background image', { error })
       return null
     }
   }
@@ -353,95 +455,542 @@ Respond with ONLY the description, no explanations.`
     }
   }
 
-  parseChartDataFromText(text: string): { data: ChartData; options: ChartOptions } | null {
+  /**
+   * Apply a modification to an existing chart spec and return the new spec.
+   * The input spec is left untouched.
+   */
+  applyModification(
+    data: ChartData,
+    options: ChartOptions,
+    modification: ChartModification
+  ): { data: ChartData; options: ChartOptions } {
+    let labels = [...data.labels]
+    let datasets = data.datasets.map(ds => ({ ...ds, data: [...ds.data] }))
+    const newOptions: ChartOptions = { ...options }
+
+    if (modification.type) {
+      newOptions.type = modification.type
+      // Per-slice colors from a pie chart don't carry over to a bar/line chart
+      datasets = datasets.map(({ backgroundColor, borderColor, ...rest }) =>
+        Array.isArray(backgroundColor) || Array.isArray(borderColor)
+          ? rest
+          : { ...rest, backgroundColor, borderColor }
+      )
+    }
+    if (modification.title !== undefined) {
+      newOptions.title = modification.title
+    }
+
+    if (modification.removeLabels?.length) {
+      const remove = new Set(modification.removeLabels.map(l => l.toLowerCase()))
+      const keep = labels.map(l => !remove.has(l.toLowerCase()))
+      labels = labels.filter((_, i) => keep[i])
+      datasets = datasets.map(ds => ({ ...ds, data: ds.data.filter((_, i) => keep[i]) }))
+    }
+
+    if (modification.labels?.length) {
+      labels = [...modification.labels]
+    }
+
+    if (modification.removeDatasets?.length) {
+      const remove = new Set(modification.removeDatasets.map(l => l.toLowerCase()))
+      datasets = datasets.filter(ds => !remove.has(ds.label.toLowerCase()))
+    }
+
+    for (const update of modification.datasets || []) {
+      const existing = datasets.find(ds => ds.label.toLowerCase() === update.label.toLowerCase())
+      if (existing) {
+        existing.data = [...update.data]
+        if (update.color) {
+          existing.backgroundColor = update.color
+          existing.borderColor = update.color
+        }
+      } else {
+        datasets.push({
+          label: update.label,
+          data: [...update.data],
+          ...(update.color ? { backgroundColor: update.color, borderColor: update.color } : {})
+        })
+      }
+    }
+
+    // Keep every dataset aligned with the labels
+    datasets = datasets.map(ds => ({
+      ...ds,
+      data: labels.map((_, i) => (typeof ds.data[i] === 'number' ? ds.data[i] : 0))
+    }))
+
+    if (modification.color) {
+      datasets = datasets.map(ds => ({ ...ds, backgroundColor: modification.color, borderColor: modification.color }))
+    }
+    if (modification.colors) {
+      const colors = Object.fromEntries(
+        Object.entries(modification.colors).map(([label, color]) => [label.toLowerCase(), color])
+      )
+      datasets = datasets.map(ds => {
+        const color = colors[ds.label.toLowerCase()]
+        return color ? { ...ds, backgroundColor: color, borderColor: color } : ds
+      })
+    }
+
+    if (labels.length === 0 || datasets.length === 0) {
+      throw new Error('Modification would leave the chart without any data')
+    }
+
+    return { data: { labels, datasets }, options: newOptions }
+  }
+
+  /**
+   * Extract a ChartModification from an LLM response
+   */
+  parseModificationFromText(text: string): ChartModification | null {
     try {
-      console.log('[ChartGenerator] Parsing text, length:', text.length)
-      console.log('[ChartGenerator] Full text:', text)
-      
-      // Try multiple patterns to extract JSON
       let jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/)
       if (!jsonMatch) {
         jsonMatch = text.match(/```\s*([\s\S]*?)\s*```/)
       }
       if (!jsonMatch) {
-        jsonMatch = text.match(/\{[\s\S]*"labels"[\s\S]*"datasets"[\s\S]*\}/)
+        jsonMatch = text.match(/\{[\s\S]*\}/)
       }
       if (!jsonMatch) {
-        // Try to find any JSON object
-        jsonMatch = text.match(/\{[\s\S]{20,}\}/)
+        logger.warn('No modification JSON found in response')
+        return null
       }
 
-      if (jsonMatch) {
-        const jsonStr = jsonMatch[1] || jsonMatch[0]
-        console.log('[ChartGenerator] Extracted JSON string:', jsonStr.substring(0, 200))
-        
-        const parsed = JSON.parse(jsonStr)
-        console.log('[ChartGenerator] Parsed JSON:', JSON.stringify(parsed, null, 2))
+      return this.normalizeModification(JSON.parse(jsonMatch[1] || jsonMatch[0]))
+    } catch (error) {
+      logger.error('Modification parse error', { error })
+      return null
+    }
+  }
 
-        // Handle different JSON structures
-        let labels: string[] = []
-        let datasets: Array<{ label: string; data: number[] }> = []
-        let chartType = 'bar'
-        let title = ''
+  /**
+   * Keep the well-formed fields of a modification object, from an LLM response or tool call
+   */
+  normalizeModification(parsed: unknown): ChartModification | null {
+    if (!isRecord(parsed)) {
+      return null
+    }
 
-        if (parsed.labels && Array.isArray(parsed.labels)) {
-          labels = parsed.labels
-        }
-        
-        if (parsed.datasets && Array.isArray(parsed.datasets)) {
-          datasets = parsed.datasets.map((ds: any) => ({
-            label: ds.label || 'Dataset',
-            data: Array.isArray(ds.data) ? ds.data : []
-          }))
-        } else if (parsed.data && Array.isArray(parsed.data)) {
-          // Handle case where data is directly in parsed.data
-          datasets = [{
-            label: parsed.label || 'Data',
-            data: parsed.data
+    const modification: ChartModification = {}
+    const isStringArray = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every(v => typeof v === 'string')
+
+    const type = CHART_TYPES.find(chartType => chartType === parsed.type)
+    if (type) {
+      modification.type = type
+    }
+    if (typeof parsed.title === 'string') {
+      modification.title = parsed.title
+    }
+    if (typeof parsed.color === 'string' && parsed.color) {
+      modification.color = parsed.color
+    }
+    if (isRecord(parsed.colors)) {
+      modification.colors = Object.fromEntries(
+        Object.entries(parsed.colors).filter(([, v]) => typeof v === 'string')
+      ) as Record<string, string>
+    }
+    if (isStringArray(parsed.labels) && parsed.labels.length > 0) {
+      modification.labels = parsed.labels
+    }
+    if (Array.isArray(parsed.datasets)) {
+      const datasets: unknown[] = parsed.datasets
+      modification.datasets = datasets.flatMap(ds => isRecord(ds) && typeof ds.label === 'string' && Array.isArray(ds.data)
+        ? [{
+            label: ds.label,
+            data: ds.data.map((v: unknown) => Number(v) || 0),
+            ...(typeof ds.color === 'string' ? { color: ds.color } : {})
           }]
-        }
+        : [])
+    }
+    if (isStringArray(parsed.removeDatasets)) {
+      modification.removeDatasets = parsed.removeDatasets
+    }
+    if (isStringArray(parsed.removeLabels)) {
+      modification.removeLabels = parsed.removeLabels
+    }
 
-        if (parsed.type) {
-          chartType = parsed.type
-        } else if (text.toLowerCase().includes('pie')) {
-          chartType = 'pie'
-        } else if (text.toLowerCase().includes('line')) {
-          chartType = 'line'
-        } else if (text.toLowerCase().includes('bar')) {
-          chartType = 'bar'
-        }
+    return Object.keys(modification).length > 0 ? modification : null
+  }
 
-        if (parsed.title) {
-          title = parsed.title
-        }
+  parseChartDataFromText(text: string): { data: ChartData; options: ChartOptions } | null {
+    const result = this.parseChartSpec(text)
+    return 'spec' in result ? result.spec : null
+  }
 
-        // Validate we have the minimum required data
-        if (labels.length > 0 && datasets.length > 0 && datasets[0].data.length > 0) {
-          console.log('[ChartGenerator] Successfully parsed chart spec')
-          return {
-            data: {
-              labels,
-              datasets
-            },
-            options: {
-              type: chartType as 'bar' | 'line' | 'pie' | 'doughnut',
-              title
-            }
-          }
-        } else {
-          console.warn('[ChartGenerator] Missing required data:', { labels: labels.length, datasets: datasets.length })
-        }
-      } else {
-        console.warn('[ChartGenerator] No JSON found in response')
+  /**
+   * Like parseChartDataFromText, but says what was wrong with the response so the
+   * model can be asked to correct it
+   */
+  parseChartSpec(text: string): ChartSpecParseResult {
+    logger.debug('Parsing chart spec from text', { length: text.length, text })
+
+    const jsonStr = extractJson(text)
+    if (!jsonStr) {
+      return this.parseFailure('No JSON object was found in the response')
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(jsonStr)
+    } catch (error) {
+      return this.parseFailure(`The JSON is invalid: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    logger.debug('Parsed chart JSON', { parsed })
+
+    return this.validateChartSpec(parsed, text)
+  }
+
+  /**
+   * Check a chart spec object, from an LLM response or tool call, and normalize it
+   * to ChartData and ChartOptions. Without a "type", one mentioned in text is used.
+   */
+  validateChartSpec(parsed: unknown, text: string = ''): ChartSpecParseResult {
+    if (!isRecord(parsed)) {
+      return this.parseFailure('The JSON must be an object with "type", "title", "labels" and "datasets"')
+    }
+
+    let chartType: string
+    if (parsed.type !== undefined) {
+      chartType = String(parsed.type).toLowerCase()
+    } else if (text.toLowerCase().includes('pie')) {
+      chartType = 'pie'
+    } else if (text.toLowerCase().includes('line')) {
+      chartType = 'line'
+    } else {
+      chartType = 'bar'
+    }
+    if (!CHART_TYPES.includes(chartType as ChartOptions['type'])) {
+      return this.parseFailure(`"type" is "${parsed.type}" but must be one of ${CHART_TYPES.join(', ')}`)
+    }
+
+    if (!Array.isArray(parsed.labels) || parsed.labels.length === 0) {
+      return this.parseFailure('"labels" must be a non-empty array of category names')
+    }
+    const labels = parsed.labels.map((label: unknown) => String(label))
+
+    let rawDatasets: unknown[]
+    if (Array.isArray(parsed.datasets)) {
+      rawDatasets = parsed.datasets
+    } else if (Array.isArray(parsed.data)) {
+      // Handle case where data is directly in parsed.data
+      rawDatasets = [{ label: parsed.label || 'Data', data: parsed.data }]
+    } else {
+      return this.parseFailure('"datasets" must be an array of objects with "label" and "data"')
+    }
+    if (rawDatasets.length === 0) {
+      return this.parseFailure('"datasets" is empty; include at least one dataset')
+    }
+
+    const datasets: ChartData['datasets'] = []
+    for (const [i, ds] of rawDatasets.entries()) {
+      if (!isRecord(ds) || !Array.isArray(ds.data)) {
+        return this.parseFailure(`datasets[${i}] must have a "data" array of numbers`)
+      }
+      const data: unknown[] = ds.data.map((value: unknown) => typeof value === 'string' && value.trim() ? Number(value) : value)
+      if (!data.every(isFiniteNumber)) {
+        const badIndex = data.findIndex(value => !isFiniteNumber(value))
+        return this.parseFailure(`datasets[${i}].data[${badIndex}] is ${JSON.stringify(ds.data[badIndex]) ?? 'undefined'}, but every value must be a number`)
       }
+      if (data.length !== labels.length) {
+        return this.parseFailure(`datasets[${i}].data has ${data.length} values but there are ${labels.length} labels; they must match one to one`)
+      }
+      datasets.push({
+        label: typeof ds.label === 'string' && ds.label ? ds.label : 'Dataset',
+        data,
+        ...(isColor(ds.backgroundColor) ? { backgroundColor: ds.backgroundColor } : {}),
+        ...(isColor(ds.borderColor) ? { borderColor: ds.borderColor } : {}),
+        ...(isFiniteNumber(ds.borderWidth) ? { borderWidth: ds.borderWidth } : {})
+      })
+    }
 
-      return null
+    const sourceData = { labels, datasets }
+    const transformed = this.transformData(sourceData, parsed.transforms)
+    if ('error' in transformed) {
+      return this.parseFailure(transformed.error)
+    }
+
+    const title = typeof parsed.title === 'string' ? parsed.title : ''
+    const claimedSource: DataSource | undefined = parsed.source === 'user' || parsed.source === 'sample'
+      ? { kind: parsed.source, ...(typeof parsed.sourceNote === 'string' && parsed.sourceNote ? { note: parsed.sourceNote } : {}) }
+      : undefined
+    logger.info('Parsed chart spec', { chartType, labels: labels.length, datasets: datasets.length, claimedSource: claimedSource?.kind })
+    return {
+      spec: {
+        data: transformed.data,
+        options: { type: chartType as ChartOptions['type'], title }
+      },
+      claimedSource,
+      ...(transformed.data !== sourceData ? { sourceData } : {})
+    }
+  }
+
+  /**
+   * Check a chart given as data and options, from the generateChart RPC or a tool call.
+   * The data and transforms are validated like a spec; of the options, only rendering
+   * options with the right type are kept, and a width or height out of bounds is rejected.
+   */
+  validateDataChart(input: unknown): ChartSpecParseResult {
+    if (!isRecord(input) || !isRecord(input.data)) {
+      return { error: '"data" must be an object with "labels" and "datasets"' }
+    }
+    const options = isRecord(input.options) ? input.options : {}
+    for (const key of SIZE_OPTIONS) {
+      const size = options[key]
+      if (size !== undefined && !(isFiniteNumber(size) && size >= MIN_CHART_SIZE && size <= MAX_CHART_SIZE)) {
+        return { error: `options.${key} must be a number of pixels from ${MIN_CHART_SIZE} to ${MAX_CHART_SIZE}` }
+      }
+    }
+    const result = this.validateChartSpec({ ...input.data, type: options.type, title: options.title, transforms: input.transforms })
+    if ('error' in result) {
+      return result
+    }
+
+    const rendering = Object.fromEntries(Object.entries(options).filter(([key, value]) =>
+      (SIZE_OPTIONS.includes(key) && isFiniteNumber(value)) || (STRING_OPTIONS.includes(key) && typeof value === 'string')
+    )) as Partial<ChartOptions>
+    return { ...result, spec: { data: result.spec.data, options: { ...rendering, ...result.spec.options } } }
+  }
+
+  /**
+   * Apply the transforms a spec or tool call declares, in order. Without any, the data is
+   * returned as is; invalid steps give an error the model can correct.
+   */
+  transformData(data: ChartData, transforms: unknown): { data: ChartData } | { error: string } {
+    const validated = validateTransforms(transforms)
+    if ('error' in validated) {
+      return validated
+    }
+    if (validated.transforms.length === 0) {
+      return { data }
+    }
+
+    const result = applyTransforms(data, validated.transforms)
+    const outcome = 'data' in result ? 'ok' : 'error'
+    for (const transform of validated.transforms) {
+      metrics.chartTransforms.inc({ op: transform.op, outcome })
+    }
+    logger.info('Transformed chart data', {
+      transforms: describeTransforms(validated.transforms),
+      labels: 'data' in result ? result.data.labels.length : undefined,
+      error: 'error' in result ? result.error : undefined
+    })
+    return result
+  }
+
+  /**
+   * Chart spec for a pasted table. The values are read from the table's cells; the
+   * choice, from the model or a tool call, only names the type, title, columns and
+   * transforms. Without a type, date labels get a line chart and anything else a bar chart.
+   * A pivot by column must be the first transform; that column isn't plotted itself.
+   */
+  chartFromTable(table: ParsedTable, choice: unknown): ChartSpecParseResult {
+    if (!isRecord(choice)) {
+      return { error: 'The choice must be an object with "type", "title", "labelColumn" and "valueColumns"' }
+    }
+
+    const validated = validateTransforms(choice.transforms)
+    if ('error' in validated) {
+      return validated
+    }
+    const transforms = validated.transforms
+    const pivotIndex = transforms.findIndex(transform => transform.op === 'pivot' && transform.column)
+    const pivotColumn = pivotIndex === -1 ? undefined : (transforms[pivotIndex] as { column: string }).column
+    const seriesIndex = table.columns.findIndex(column => column.name === pivotColumn)
+    if (pivotColumn && pivotIndex > 0) {
+      return { error: 'A pivot by "column" must be the first transform' }
+    }
+    if (pivotColumn && seriesIndex === -1) {
+      return { error: `"${pivotColumn}" is not a column; the columns are ${table.columns.map(column => `"${column.name}"`).join(', ')}` }
+    }
+
+    const mapping = validateMapping(table, {
+      labelColumn: typeof choice.labelColumn === 'string' ? choice.labelColumn : undefined,
+      valueColumns: Array.isArray(choice.valueColumns)
+        ? choice.valueColumns.filter((name: unknown) => !pivotColumn || name !== pivotColumn)
+        : undefined
+    })
+    if ('error' in mapping) {
+      return mapping
+    }
+    // The pivot column's cells name each row's series
+    const sourceData = tableToChartData(table, mapping.mapping)
+    const transformed = this.transformData(sourceData, transforms.map(transform =>
+      transform.op === 'pivot' && transform.column ? { op: 'pivot', fn: transform.fn, series: table.rows.map(row => row[seriesIndex]) } : transform))
+    if ('error' in transformed) {
+      return transformed
+    }
+    const labelType = table.columns.find(column => column.name === mapping.mapping.labelColumn)?.type
+    const chartType = choice.type !== undefined ? String(choice.type).toLowerCase() : labelType === 'date' ? 'line' : 'bar'
+    if (!CHART_TYPES.includes(chartType as ChartOptions['type'])) {
+      return { error: `"type" is "${choice.type}" but must be one of ${CHART_TYPES.join(', ')}` }
+    }
+
+    return {
+      spec: {
+        data: transformed.data,
+        options: {
+          type: chartType as ChartOptions['type'],
+          title: typeof choice.title === 'string' && choice.title
+            ? choice.title
+            : `${mapping.mapping.valueColumns.join(', ')} by ${mapping.mapping.labelColumn}`
+        }
+      },
+      claimedSource: {
+        kind: 'user',
+        note: table.name
+          ? `${table.rows.length} rows of ${table.name}`
+          : `${table.rows.length} rows of the ${table.format.toUpperCase()} table you pasted`
+      },
+      ...(transformed.data !== sourceData ? { sourceData } : {})
+    }
+  }
+
+  /**
+   * The model's column choice for a table, from its JSON response
+   */
+  parseTableChoice(text: string, table: ParsedTable): ChartSpecParseResult {
+    const jsonStr = extractJson(text)
+    if (!jsonStr) {
+      return { error: 'No JSON object was found in the response' }
+    }
+    try {
+      return this.chartFromTable(table, JSON.parse(jsonStr))
     } catch (error) {
-      console.error('[ChartGenerator] Parse error:', error)
-      if (error instanceof Error) {
-        console.error('[ChartGenerator] Error details:', error.message)
+      return { error: `The JSON is invalid: ${error instanceof Error ? error.message : String(error)}` }
+    }
+  }
+
+  /**
+   * A dashboard plan from an LLM response: a title and a list of chart specs, each
+   * validated like a single chart. Invalid charts are skipped; at most maxCharts are kept.
+   */
+  parseDashboardSpec(text: string, maxCharts: number): DashboardParseResult {
+    const jsonStr = extractJson(text)
+    if (!jsonStr) {
+      return { error: 'No JSON object was found in the response' }
+    }
+    try {
+      return this.validateDashboardSpec(JSON.parse(jsonStr), maxCharts)
+    } catch (error) {
+      return { error: `The JSON is invalid: ${error instanceof Error ? error.message : String(error)}` }
+    }
+  }
+
+  /**
+   * Check a dashboard object, from an LLM response or tool call. The dashboard's
+   * source and sourceNote apply to every chart that doesn't set its own.
+   */
+  validateDashboardSpec(parsed: unknown, maxCharts: number): DashboardParseResult {
+    if (!isRecord(parsed) || !Array.isArray(parsed.charts) || parsed.charts.length === 0) {
+      return { error: 'The dashboard must be an object with a non-empty "charts" array' }
+    }
+
+    const charts: Array<Exclude<ChartSpecParseResult, { error: string }>> = []
+    const skipped: string[] = []
+    const specs: unknown[] = parsed.charts
+    for (const [i, chart] of specs.entries()) {
+      if (charts.length >= maxCharts) {
+        skipped.push(`charts[${i}]: a dashboard has at most ${maxCharts} charts`)
+        continue
       }
-      return null
+      const result = this.validateChartSpec(isRecord(chart)
+        ? { source: parsed.source, sourceNote: parsed.sourceNote, ...chart }
+        : chart)
+      if ('error' in result) {
+        skipped.push(`charts[${i}]: ${result.error}`)
+      } else {
+        charts.push(result)
+      }
+    }
+    if (charts.length === 0) {
+      return { error: `None of the charts are valid: ${skipped.join('; ')}` }
     }
+
+    const title = typeof parsed.title === 'string' ? parsed.title : ''
+    logger.info('Parsed dashboard spec', { charts: charts.length, skipped: skipped.length })
+    return { dashboard: { title, charts, skipped } }
+  }
+
+  /**
+   * Compose rendered charts into one image: a grid with the given number of columns under
+   * the dashboard title, on a shared white canvas
+   */
+  async composeDashboard(images: string[], title: string, columns: number, signal?: AbortSignal): Promise<string> {
+    const panels = await Promise.all(images.map(image => loadImage(Buffer.from(image, 'base64'))))
+    throwIfCancelled(signal)
+
+    const cellWidth = Math.max(...panels.map(panel => panel.width))
+    const cellHeight = Math.max(...panels.map(panel => panel.height))
+    const rows = Math.ceil(panels.length / columns)
+    const top = title ? DASHBOARD_TITLE_HEIGHT : DASHBOARD_GAP
+    const width = columns * cellWidth + (columns + 1) * DASHBOARD_GAP
+    const height = top + rows * (cellHeight + DASHBOARD_GAP)
+    logger.info('Composing dashboard', { charts: panels.length, columns, width, height })
+
+    const canvas = createCanvas(width, height)
+    const ctx = canvas.getContext('2d')
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, width, height)
+    if (title) {
+      ctx.fillStyle = '#333333'
+      ctx.font = 'bold 28px sans-serif'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText(title, width / 2, DASHBOARD_TITLE_HEIGHT / 2, width - 2 * DASHBOARD_GAP)
+    }
+    panels.forEach((panel, i) => {
+      const x = DASHBOARD_GAP + (i % columns) * (cellWidth + DASHBOARD_GAP)
+      const y = top + Math.floor(i / columns) * (cellHeight + DASHBOARD_GAP)
+      // Centered in its cell when the charts differ in size
+      ctx.drawImage(panel, x + (cellWidth - panel.width) / 2, y + (cellHeight - panel.height) / 2)
+    })
+    return canvas.toBuffer('image/png').toString('base64')
   }
+
+  private parseFailure(error: string): ChartSpecParseResult {
+    logger.warn('Chart spec rejected', { reason: error })
+    metrics.chartParseFailures.inc()
+    return { error }
+  }
+}
+
+const CHART_TYPES: Array<ChartOptions['type']> = ['bar', 'line', 'pie', 'doughnut']
+// Rendering options a data chart may set besides its type and title
+const SIZE_OPTIONS = ['width', 'height']
+const STRING_OPTIONS = ['watermarkPrompt', 'backgroundImagePrompt', 'backgroundColor', 'backgroundDescription']
+
+/**
+ * The JSON in an LLM response: a fenced block if there is one, otherwise the
+ * outermost braces
+ */
+function extractJson(text: string): string | null {
+  // Try multiple patterns to extract JSON
+  const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/) ||
+    text.match(/```\s*([\s\S]*?)\s*```/) ||
+    text.match(/\{[\s\S]*"labels"[\s\S]*"datasets"[\s\S]*\}/) ||
+    // Try to find any JSON object
+    text.match(/\{[\s\S]{20,}\}/)
+  return jsonMatch ? jsonMatch[1] || jsonMatch[0] : null
+}
+
+/**
+ * A JSON object, as opposed to null, an array or a primitive
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// One color, or one per label
+function isColor(value: unknown): value is string | string[] {
+  return typeof value === 'string' || (Array.isArray(value) && value.every(color => typeof color === 'string'))
+}
+
+function clampSize(size: number): number {
+  return Math.min(Math.max(size, MIN_CHART_SIZE), MAX_CHART_SIZE)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
 }
@@ -0,0 +1,258 @@
+// Context Manager - Keeps a conversation within a token budget. Older turns are summarized by the
+// model into a pinned summary; chart specs and messages with user-supplied data are never dropped.
+//
+//   CONTEXT_TOKEN_BUDGET=3000   Approximate tokens of history sent with each request
+//   CONTEXT_KEEP_RECENT=6       Most recent messages that are always kept verbatim
+
+import type { ChartSpec } from './index.js'
+import { OllamaClient, ChatMessage } from './ollama.js'
+import { getSummaryPrompt } from '../utils/prompts.js'
+import { isCancellationError } from '../utils/cancellation.js'
+import { createLogger } from '../utils/logger.js'
+import { metrics } from '../utils/metrics.js'
+
+const logger = createLogger('ContextManager')
+
+const TOKEN_BUDGET = process.env.CONTEXT_TOKEN_BUDGET ? parseInt(process.env.CONTEXT_TOKEN_BUDGET, 10) : 3000
+const KEEP_RECENT = process.env.CONTEXT_KEEP_RECENT ? parseInt(process.env.CONTEXT_KEEP_RECENT, 10) : 6
+// Charts listed in the pinned chart message, most recent last
+const MAX_PINNED_CHARTS = 5
+// Role and formatting overhead Ollama adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4
+// Turns before a chart request that are sent along with it
+const CHART_CONTEXT_TURNS = 4
+// Share of a chart's values that must appear in the user's data for it to count as theirs
+const USER_DATA_MATCH = 0.8
+
+/**
+ * What a chart request sees of the conversation
+ */
+export interface ChartContext {
+  summary?: string
+  // Earlier messages with data the user supplied, oldest first
+  userData: string[]
+  // The turns just before the request
+  recentTurns: ChatMessage[]
+}
+
+/**
+ * Rough token count: about four characters per token for English text and JSON
+ */
+export function estimateTokens(message: ChatMessage): number {
+  return Math.ceil(message.content.length / 4) + MESSAGE_OVERHEAD_TOKENS
+}
+
+/**
+ * Whether a message carries data the user pasted: a code block, several delimited
+ * lines (CSV, TSV, Markdown tables) or a run of numbers
+ */
+export function containsUserData(text: string): boolean {
+  if (text.includes('```')) {
+    return true
+  }
+  const delimitedLines = text.split('\n').filter(line => /[,\t|;]/.test(line) && /\d/.test(line))
+  if (delimitedLines.length >= 3) {
+    return true
+  }
+  return (text.match(/-?\d+(?:[.,]\d+)?/g) || []).length >= 6
+}
+
+/**
+ * Every number in the text, both as written ("1,200" is 1200) and split at commas (CSV rows)
+ */
+function extractNumbers(text: string): Set<number> {
+  const numbers = new Set<number>()
+  for (const match of text.match(/-?\d+(?:\.\d+)?/g) || []) {
+    numbers.add(parseFloat(match))
+  }
+  for (const match of text.match(/-?\d{1,3}(?:,\d{3})+(?:\.\d+)?/g) || []) {
+    numbers.add(parseFloat(match.replace(/,/g, '')))
+  }
+  return numbers
+}
+
+export class ContextManager {
+  private ollama: OllamaClient
+  private systemPrompt: ChatMessage
+  // Model-written summary of the turns that were compacted away
+  private summary = ''
+  // User messages with data, kept verbatim after their turn was summarized
+  private pinnedData: ChatMessage[] = []
+  private charts: ChartSpec[] = []
+  private messages: ChatMessage[] = []
+  // Numbers from dataset files the user asked for, which count as their data
+  private datasetValues: Set<number> = new Set()
+  // Set while a summary is being written; compact() runs after the response, as its own job
+  private compacting = false
+
+  constructor(ollama: OllamaClient, systemPrompt: string) {
+    this.ollama = ollama
+    this.systemPrompt = { role: 'system', content: systemPrompt }
+  }
+
+  add(message: ChatMessage) {
+    this.messages.push(message)
+  }
+
+  /**
+   * Remember a rendered chart so its spec survives compaction
+   */
+  recordChart(chart: ChartSpec) {
+    // A chart rendered by a tool is reported again when the tool's result is delivered
+    if (this.charts[this.charts.length - 1]?.data === chart.data) {
+      return
+    }
+    this.charts = [...this.charts, chart].slice(-MAX_PINNED_CHARTS)
+  }
+
+  /**
+   * The history to send: system prompt, pinned summary, charts and data, then the recent turns
+   */
+  getMessages(): ChatMessage[] {
+    return [this.systemPrompt, ...this.getPinnedMessages(), ...this.messages]
+  }
+
+  /**
+   * Summary, user-supplied data and the last few turns for a chart request.
+   * The request may already be the latest message (chat) or not (generateChart).
+   */
+  getChartContext(request: string): ChartContext {
+    const latest = this.messages[this.messages.length - 1]
+    const earlier = latest?.role === 'user' && latest.content === request ? this.messages.slice(0, -1) : this.messages
+    return {
+      summary: this.summary || undefined,
+      userData: [...this.pinnedData, ...earlier]
+        .filter(message => message.role === 'user' && containsUserData(message.content))
+        .map(message => message.content),
+      recentTurns: earlier.slice(-CHART_CONTEXT_TURNS)
+    }
+  }
+
+  /**
+   * Remember the numbers of a dataset file loaded for the user
+   */
+  addDatasetValues(values: number[]) {
+    for (const value of values) {
+      this.datasetValues.add(value)
+    }
+  }
+
+  /**
+   * Whether most of the values appear in what the user wrote or in datasets loaded for
+   * them, so a chart of them shows real numbers rather than invented ones
+   */
+  matchesUserData(values: number[], request: string): boolean {
+    if (values.length === 0) {
+      return false
+    }
+    const userText = [...this.pinnedData, ...this.messages]
+      .filter(message => message.role === 'user')
+      .map(message => message.content)
+    const supplied = extractNumbers([...userText, request].join('\n'))
+    const matched = values.filter(value => supplied.has(value) || this.datasetValues.has(value)).length
+    return matched / values.length >= USER_DATA_MATCH
+  }
+
+  getTokenCount(): number {
+    return this.getMessages().reduce((total, message) => total + estimateTokens(message), 0)
+  }
+
+  /**
+   * Whether the history is over budget, with older messages to summarize and no summary
+   * already being written
+   */
+  needsCompaction(): boolean {
+    return !this.compacting && this.getTokenCount() > TOKEN_BUDGET && this.messages.length > KEEP_RECENT
+  }
+
+  /**
+   * When the history is over budget, summarize everything but the most recent messages.
+   * Never throws: a failed or cancelled summary leaves the history to the next attempt,
+   * or drops the oldest turns when it is far over budget. Messages added while the summary
+   * is written are kept; a call while one is in progress does nothing.
+   */
+  async compact(signal?: AbortSignal): Promise<void> {
+    if (!this.needsCompaction()) {
+      return
+    }
+    const tokens = this.getTokenCount()
+
+    const older = this.messages.slice(0, -KEEP_RECENT)
+    logger.info('Compacting conversation', { tokens, budget: TOKEN_BUDGET, messages: older.length })
+
+    this.compacting = true
+    try {
+      const transcript = older
+        .map(message => `${message.role.toUpperCase()}: ${message.content}`)
+        .join('\n\n')
+      const summary = await this.ollama.chat([
+        { role: 'system', content: getSummaryPrompt(this.summary || undefined) },
+        { role: 'user', content: transcript }
+      ], { signal })
+      // Cleared while summarizing
+      if (this.messages[0] !== older[0]) return
+
+      this.summary = summary.trim()
+      this.pinData(older)
+      this.messages = this.messages.slice(older.length)
+      metrics.contextCompactions.inc({ method: 'summary' })
+      logger.info('Conversation summarized', { tokensBefore: tokens, tokensAfter: this.getTokenCount() })
+    } catch (error) {
+      if (isCancellationError(error)) {
+        logger.info('Compaction cancelled')
+        return
+      }
+      logger.warn('Summarizing the conversation failed', { error })
+      // Without a summary the history still can't grow without bound
+      if (tokens > TOKEN_BUDGET * 2 && this.messages[0] === older[0]) {
+        this.pinData(older)
+        this.messages = this.messages.slice(older.length)
+        metrics.contextCompactions.inc({ method: 'truncate' })
+      }
+    } finally {
+      this.compacting = false
+    }
+  }
+
+  clear() {
+    this.summary = ''
+    this.pinnedData = []
+    this.charts = []
+    this.messages = []
+    this.datasetValues.clear()
+  }
+
+  private pinData(messages: ChatMessage[]) {
+    const data = messages.filter(message => message.role === 'user' && containsUserData(message.content))
+    this.pinnedData.push(...data)
+
+    const pinnedTokens = this.pinnedData.reduce((total, message) => total + estimateTokens(message), 0)
+    if (pinnedTokens > TOKEN_BUDGET) {
+      logger.warn('Pinned user data alone exceeds the context budget', { pinnedTokens, budget: TOKEN_BUDGET })
+    }
+  }
+
+  private getPinnedMessages(): ChatMessage[] {
+    const pinned: ChatMessage[] = []
+    if (this.summary) {
+      pinned.push({ role: 'system', content: `Summary of the earlier conversation:\n${this.summary}` })
+    }
+    if (this.charts.length > 0) {
+      const charts = this.charts.map(chart => JSON.stringify({
+        type: chart.options.type,
+        title: chart.options.title,
+        labels: chart.data.labels,
+        datasets: chart.data.datasets.map(ds => ({ label: ds.label, data: ds.data }))
+      }))
+      pinned.push({ role: 'system', content: `Charts created in this conversation, oldest first:\n${charts.join('\n')}` })
+    }
+    if (this.pinnedData.length > 0) {
+      pinned.push({
+        role: 'system',
+        content: 'Data the user provided earlier in the conversation:\n\n' +
+          this.pinnedData.map(message => message.content).join('\n\n---\n\n')
+      })
+    }
+    return pinned
+  }
+}
@@ -0,0 +1,355 @@
+// Data Transforms - Reshape chart data before it is rendered: sort, top N with an "Other"
+// category, merge duplicate labels, pivot long data to wide, percent of total, cumulative sum
+// and moving average. A spec declares the steps; the values are computed here, not by the model.
+
+import type { ChartData } from './chartGenerator.js'
+import { JsonSchema } from '../mcp/protocol.js'
+
+export type AggregateFunction = 'sum' | 'avg' | 'count' | 'min' | 'max'
+
+export type DataTransform =
+  // Order the categories by a dataset's values (default the first), or by name when by is "label"
+  | { op: 'sort'; by?: string; order: 'asc' | 'desc' }
+  // Keep the n highest categories (lowest with order asc); the rest are summed into one
+  // category named by other (default "Other"), or dropped when other is false
+  | { op: 'top_n'; n: number; by?: string; order: 'asc' | 'desc'; other: boolean | string }
+  | { op: 'filter'; labels: string[] }
+  // Merge categories that share a label
+  | { op: 'aggregate'; fn: AggregateFunction }
+  // Long to wide: series[i] names the series point i belongs to, and every series becomes a
+  // dataset over the distinct labels. Table charts can name a column instead.
+  | { op: 'pivot'; series?: string[]; column?: string; fn: AggregateFunction }
+  // Each value as a percentage of its dataset's total, or of its label's total across datasets
+  | { op: 'percent'; of: 'dataset' | 'label' }
+  | { op: 'cumulative' }
+  // Trailing average over window points; the first points average the ones available.
+  // keep adds the averages as new datasets instead of replacing the values.
+  | { op: 'moving_average'; window: number; keep: boolean }
+
+export const TRANSFORM_OPS: Array<DataTransform['op']> = [
+  'sort', 'top_n', 'filter', 'aggregate', 'pivot', 'percent', 'cumulative', 'moving_average'
+]
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'count', 'min', 'max']
+
+// Tool parameter for a list of transforms; each field names the ops it applies to
+export const TRANSFORMS_SCHEMA: JsonSchema = {
+  type: 'array',
+  description: 'Steps applied to the data in order before it is rendered',
+  items: {
+    type: 'object',
+    properties: {
+      op: { type: 'string', enum: TRANSFORM_OPS },
+      by: { type: 'string', description: 'sort, top_n: dataset label to rank by, or "label" to sort by name (default the first dataset)' },
+      order: { type: 'string', enum: ['asc', 'desc'], description: 'sort, top_n: default desc' },
+      n: { type: 'number', description: 'top_n: categories to keep' },
+      other: { type: 'boolean', description: 'top_n: sum the remaining categories into "Other" (default true)' },
+      labels: { type: 'array', items: { type: 'string' }, description: 'filter: categories to keep' },
+      fn: { type: 'string', enum: AGGREGATE_FUNCTIONS, description: 'aggregate, pivot: how values are combined (default sum)' },
+      series: { type: 'array', items: { type: 'string' }, description: 'pivot: the series of every point, one per label' },
+      column: { type: 'string', description: 'pivot: table column whose values become the datasets' },
+      of: { type: 'string', enum: ['dataset', 'label'], description: 'percent: share of each dataset\'s total (default) or of each label\'s total' },
+      window: { type: 'number', description: 'moving_average: points per average' },
+      keep: { type: 'boolean', description: 'moving_average: add the averages next to the values instead of replacing them' }
+    },
+    required: ['op']
+  }
+}
+
+/**
+ * Check transforms from a spec or tool call and fill in the defaults; the error says what to fix
+ */
+export function validateTransforms(raw: unknown): { transforms: DataTransform[] } | { error: string } {
+  if (raw === undefined || raw === null) {
+    return { transforms: [] }
+  }
+  if (!Array.isArray(raw)) {
+    return { error: '"transforms" must be an array of steps like {"op": "sort"}' }
+  }
+
+  const transforms: DataTransform[] = []
+  for (const [i, step] of raw.entries()) {
+    const where = `transforms[${i}]`
+    if (!step || typeof step !== 'object' || Array.isArray(step)) {
+      return { error: `${where} must be an object with an "op"` }
+    }
+    const op = String(step.op ?? '').toLowerCase()
+    const order = step.order === 'asc' ? 'asc' : 'desc'
+    const by = typeof step.by === 'string' && step.by ? step.by : undefined
+    const fn = step.fn === undefined ? 'sum' : String(step.fn).toLowerCase() as AggregateFunction
+    if ((op === 'aggregate' || op === 'pivot') && !AGGREGATE_FUNCTIONS.includes(fn)) {
+      return { error: `${where}.fn is "${step.fn}" but must be one of ${AGGREGATE_FUNCTIONS.join(', ')}` }
+    }
+
+    switch (op) {
+      case 'sort':
+        transforms.push({ op, by, order })
+        break
+      case 'top_n': {
+        const n = Number(step.n)
+        if (!Number.isInteger(n) || n < 1) {
+          return { error: `${where}.n must be a positive whole number` }
+        }
+        const other = step.other === false ? false : typeof step.other === 'string' && step.other ? step.other : true
+        transforms.push({ op, n, by, order, other })
+        break
+      }
+      case 'filter':
+        if (!Array.isArray(step.labels) || step.labels.length === 0) {
+          return { error: `${where}.labels must list the categories to keep` }
+        }
+        transforms.push({ op, labels: step.labels.map(String) })
+        break
+      case 'aggregate':
+        transforms.push({ op, fn })
+        break
+      case 'pivot':
+        if (Array.isArray(step.series)) {
+          transforms.push({ op, series: step.series.map(String), fn })
+        } else if (typeof step.column === 'string' && step.column) {
+          transforms.push({ op, column: step.column, fn })
+        } else {
+          return { error: `${where} needs "series", the series name of every point, or "column" when charting a table` }
+        }
+        break
+      case 'percent':
+        transforms.push({ op, of: step.of === 'label' ? 'label' : 'dataset' })
+        break
+      case 'cumulative':
+        transforms.push({ op })
+        break
+      case 'moving_average': {
+        const window = Number(step.window)
+        if (!Number.isInteger(window) || window < 2) {
+          return { error: `${where}.window must be a whole number of at least 2` }
+        }
+        transforms.push({ op, window, keep: step.keep === true })
+        break
+      }
+      default:
+        return { error: `${where}.op is "${step.op}" but must be one of ${TRANSFORM_OPS.join(', ')}` }
+    }
+  }
+  return { transforms }
+}
+
+/**
+ * Apply the transforms in order. Fails when a step doesn't fit the data, e.g. an unknown dataset.
+ */
+export function applyTransforms(data: ChartData, transforms: DataTransform[]): { data: ChartData } | { error: string } {
+  let result = data
+  for (const [i, transform] of transforms.entries()) {
+    try {
+      result = applyTransform(result, transform)
+    } catch (error) {
+      return { error: `transforms[${i}] (${transform.op}): ${error instanceof Error ? error.message : String(error)}` }
+    }
+    if (result.labels.length === 0) {
+      return { error: `transforms[${i}] (${transform.op}) left no categories` }
+    }
+  }
+  return { data: result }
+}
+
+/**
+ * The steps in a few words, for replies and logs
+ */
+export function describeTransforms(transforms: DataTransform[]): string {
+  return transforms.map(transform => {
+    switch (transform.op) {
+      case 'sort':
+        return `sorted by ${transform.by || 'the first dataset'} (${transform.order})`
+      case 'top_n':
+        return `top ${transform.n}${transform.other ? ` with the rest as "${transform.other === true ? 'Other' : transform.other}"` : ''}`
+      case 'filter':
+        return `kept ${transform.labels.join(', ')}`
+      case 'aggregate':
+        return `merged duplicate labels (${transform.fn})`
+      case 'pivot':
+        return `pivoted ${transform.column ? `by ${transform.column} ` : ''}(${transform.fn})`
+      case 'percent':
+        return `percent of each ${transform.of}'s total`
+      case 'cumulative':
+        return 'cumulative sum'
+      case 'moving_average':
+        return `${transform.window}-point moving average`
+    }
+  }).join(', ')
+}
+
+function applyTransform(data: ChartData, transform: DataTransform): ChartData {
+  const { labels, datasets } = data
+  switch (transform.op) {
+    case 'sort': {
+      const indices = rankIndices(data, transform.by, transform.order)
+      return reindex(data, indices)
+    }
+
+    case 'top_n': {
+      const ranked = rankIndices(data, transform.by, transform.order)
+      const kept = reindex(data, ranked.slice(0, transform.n))
+      const rest = ranked.slice(transform.n)
+      if (!transform.other || rest.length === 0) {
+        return kept
+      }
+      return {
+        labels: [...kept.labels, transform.other === true ? 'Other' : transform.other],
+        datasets: kept.datasets.map((ds, d) => ({
+          ...pointColorsDropped(ds),
+          data: [...ds.data, round(sum(rest.map(i => datasets[d].data[i])))]
+        }))
+      }
+    }
+
+    case 'filter': {
+      const indices = labels.map((_, i) => i).filter(i => transform.labels.includes(labels[i]))
+      if (indices.length === 0) {
+        throw new Error(`none of the given labels are in the chart; its labels are ${labels.join(', ')}`)
+      }
+      return reindex(data, indices)
+    }
+
+    case 'aggregate': {
+      const groups = distinct(labels)
+      return {
+        labels: groups,
+        datasets: datasets.map(ds => ({
+          ...pointColorsDropped(ds),
+          data: groups.map(group => aggregate(ds.data.filter((_, i) => labels[i] === group), transform.fn))
+        }))
+      }
+    }
+
+    case 'pivot': {
+      const series = transform.series
+      if (!series) {
+        throw new Error(`"column" only works for table charts; give "series" instead`)
+      }
+      if (series.length !== labels.length) {
+        throw new Error(`"series" has ${series.length} entries but there are ${labels.length} labels; give one per label`)
+      }
+      const groups = distinct(labels)
+      const keys = distinct(series)
+      return {
+        labels: groups,
+        datasets: datasets.flatMap(ds => keys.map(key => ({
+          label: datasets.length === 1 ? key : `${ds.label} ${key}`,
+          data: groups.map(group => aggregate(ds.data.filter((_, i) => labels[i] === group && series[i] === key), transform.fn))
+        })))
+      }
+    }
+
+    case 'percent': {
+      if (transform.of === 'label') {
+        const totals = labels.map((_, i) => sum(datasets.map(ds => ds.data[i])))
+        return { labels, datasets: datasets.map(ds => ({ ...ds, data: ds.data.map((value, i) => percent(value, totals[i])) })) }
+      }
+      return { labels, datasets: datasets.map(ds => ({ ...ds, data: ds.data.map(value => percent(value, sum(ds.data))) })) }
+    }
+
+    case 'cumulative':
+      return {
+        labels,
+        datasets: datasets.map(ds => {
+          let total = 0
+          return { ...ds, data: ds.data.map(value => round(total += value)) }
+        })
+      }
+
+    case 'moving_average': {
+      const averaged = datasets.map(ds => ({
+        ...ds,
+        data: ds.data.map((_, i) => round(average(ds.data.slice(Math.max(0, i - transform.window + 1), i + 1))))
+      }))
+      if (!transform.keep) {
+        return { labels, datasets: averaged }
+      }
+      return {
+        labels,
+        datasets: [
+          ...datasets,
+          ...averaged.map(ds => ({ label: `${ds.label} (${transform.window}-point average)`, data: ds.data }))
+        ]
+      }
+    }
+  }
+}
+
+/**
+ * Category indices ordered by a dataset's values, or by label when by is "label" and no dataset has that name
+ */
+function rankIndices(data: ChartData, by: string | undefined, order: 'asc' | 'desc'): number[] {
+  const direction = order === 'asc' ? 1 : -1
+  const indices = data.labels.map((_, i) => i)
+  const ranked = by === undefined ? data.datasets[0] : data.datasets.find(ds => ds.label === by)
+  if (ranked) {
+    return indices.sort((a, b) => direction * (ranked.data[a] - ranked.data[b]))
+  }
+  if (by === 'label') {
+    return indices.sort((a, b) => direction * data.labels[a].localeCompare(data.labels[b], undefined, { numeric: true }))
+  }
+  throw new Error(`no dataset labelled "${by}"; use "label" or one of ${data.datasets.map(ds => `"${ds.label}"`).join(', ')}`)
+}
+
+/**
+ * The categories at the given indices, in that order; per-point colors move with their values
+ */
+function reindex(data: ChartData, indices: number[]): ChartData {
+  const pick = <T>(value: T | T[] | undefined) => Array.isArray(value) ? indices.map(i => value[i]) : value
+  return {
+    labels: indices.map(i => data.labels[i]),
+    datasets: data.datasets.map(ds => ({
+      ...ds,
+      data: indices.map(i => ds.data[i]),
+      ...(ds.backgroundColor !== undefined ? { backgroundColor: pick(ds.backgroundColor) } : {}),
+      ...(ds.borderColor !== undefined ? { borderColor: pick(ds.borderColor) } : {})
+    }))
+  }
+}
+
+// Per-point colors no longer line up once categories are merged or added
+function pointColorsDropped(ds: ChartData['datasets'][number]): ChartData['datasets'][number] {
+  const { backgroundColor, borderColor, ...rest } = ds
+  return {
+    ...rest,
+    ...(typeof backgroundColor === 'string' ? { backgroundColor } : {}),
+    ...(typeof borderColor === 'string' ? { borderColor } : {})
+  }
+}
+
+function aggregate(values: number[], fn: AggregateFunction): number {
+  switch (fn) {
+    case 'sum':
+      return round(sum(values))
+    case 'avg':
+      return round(average(values))
+    case 'count':
+      return values.length
+    case 'min':
+      return values.length > 0 ? Math.min(...values) : 0
+    case 'max':
+      return values.length > 0 ? Math.max(...values) : 0
+  }
+}
+
+function distinct(values: string[]): string[] {
+  return [...new Set(values)]
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0
+}
+
+function percent(value: number, total: number): number {
+  return total === 0 ? 0 : round(value / total * 100)
+}
+
+// Strips float noise, so sums of decimals don't plot as 0.30000000000000004, while small
+// values like rates keep their precision
+function round(value: number): number {
+  return Number(value.toPrecision(12))
+}
@@ -1,25 +1,136 @@
-import { OllamaClient, OllamaStreamCallbacks, ChatMessage } from './ollama.js'
-import { ChartGenerator, ChartData, ChartOptions } from './chartGenerator.js'
-import { getSystemPrompt, getChartPrompt } from '../utils/prompts.js'
+import { v4 as uuidv4 } from 'uuid'
+import { OllamaClient, OllamaStreamCallbacks, ChatMessage, ToolCall, ToolsUnsupportedError } from './ollama.js'
+import {
+  ChartGenerator,
+  ChartData,
+  ChartDataError,
+  ChartOptions,
+  ChartModification,
+  ChartSpecParseResult,
+  DashboardParseResult,
+  DataSource
+} from './chartGenerator.js'
+import { IntentClassifier, IntentClassification } from './intentClassifier.js'
+import { AGENT_TOOLS, AgentToolContext } from './agentTools.js'
+import { ContextManager } from './contextManager.js'
+import { ParsedTable, parseTable, parseNumber, defaultMapping, describeTable } from './tableParser.js'
+import {
+  getSystemPrompt,
+  getChartPrompt,
+  getChartModificationPrompt,
+  getChartQuestionPrompt,
+  getChartRepairPrompt,
+  getToolAgentPrompt,
+  getTableChartPrompt,
+  getSqlChartPrompt,
+  getSqlRepairPrompt,
+  getDashboardPrompt
+} from '../utils/prompts.js'
+import { isCancellationError, throwIfCancelled } from '../utils/cancellation.js'
+import { ToolRegistry, Tool, defaultToolRegistry } from '../tools/index.js'
+import { DatasetLibrary, defaultDatasetLibrary } from '../state/datasetLibrary.js'
+import { SqliteSource, DatabaseInfo, SqliteError, defaultSqliteSource, describeDatabase } from '../state/sqliteSource.js'
+import { createLogger } from '../utils/logger.js'
+import { metrics } from '../utils/metrics.js'
+
+const logger = createLogger('Agent')
 
 export interface AgentCallbacks extends OllamaStreamCallbacks {
-  onImage?: (base64Image: string, chartData?: ChartData) => void
+  // Awaited before the agent continues, so the image can be persisted first
+  onImage?: (base64Image: string, chartData?: ChartData, chartOptions?: ChartOptions, info?: ChartImageInfo) => void | Promise<void>
+  // How the message was classified, before the agent acts on it
+  onIntent?: (classification: IntentClassification) => void
+  // Progress the client should see while no tokens are streamed, e.g. chart repair attempts
+  onStatus?: (status: string) => void
+  // After a dashboard's images, how they are arranged
+  onDashboard?: (layout: DashboardLayout) => void | Promise<void>
+}
+
+export interface ChartSpec {
+  data: ChartData
+  options: ChartOptions
+}
+
+export interface ChartImageInfo {
+  // The chart shows placeholder values because the LLM never produced a valid spec
+  sampleData?: boolean
+  // Whether the values are the user's own data or illustrative
+  dataSource?: DataSource
+  // Set on a dashboard's images: its id, and the chart's index unless this is the composed grid image
+  dashboard?: { id: string; index?: number }
 }
 
+/**
+ * How a dashboard's charts are arranged, sent after its images
+ */
+export interface DashboardLayout {
+  id: string
+  title: string
+  // separate: one image per chart; grid: the charts composed into one image
+  mode: 'separate' | 'grid'
+  columns: number
+  charts: Array<{
+    index: number
+    title: string
+    type: ChartOptions['type']
+    row: number
+    column: number
+    // Set by the server once a separate chart is stored
+    chartId?: string
+  }>
+}
+
+type ValidChartSpec = Exclude<ChartSpecParseResult, { error: string }>
+
+interface ChartSpecResult {
+  spec: ChartSpec | null
+  // What the model said about where the values came from
+  claimedSource?: DataSource
+  // The data before the spec's transforms, which the source is checked against
+  sourceData?: ChartData
+  // The last LLM response, which holds the valid spec when there is one
+  response: string
+  // Why the last response was rejected, when spec is null
+  error?: string
+}
+
+// Corrected specs requested after the first response fails to parse or validate
+const CHART_REPAIR_ATTEMPTS = process.env.CHART_REPAIR_ATTEMPTS ? parseInt(process.env.CHART_REPAIR_ATTEMPTS, 10) : 2
+// Native tool calling, for models that support it; otherwise messages are routed by intent
+const TOOL_CALLING = process.env.AGENT_TOOL_CALLING !== 'off'
+// Model turns with tool calls before a final answer is requested without tools
+const MAX_TOOL_ROUNDS = process.env.AGENT_MAX_TOOL_ROUNDS ? parseInt(process.env.AGENT_MAX_TOOL_ROUNDS, 10) : 5
+// Dashboards: separate images with a layout descriptor, or one composed grid image
+const DASHBOARD_LAYOUT: DashboardLayout['mode'] = process.env.DASHBOARD_LAYOUT === 'grid' ? 'grid' : 'separate'
+const DASHBOARD_MAX_CHARTS = process.env.DASHBOARD_MAX_CHARTS ? parseInt(process.env.DASHBOARD_MAX_CHARTS, 10) : 4
+const DASHBOARD_COLUMNS = process.env.DASHBOARD_COLUMNS ? parseInt(process.env.DASHBOARD_COLUMNS, 10) : 2
+
+const COLOR_NAMES = [
+  'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'teal',
+  'cyan', 'magenta', 'brown', 'gray', 'grey', 'black', 'navy', 'gold'
+]
+
 export class Agent {
   private ollama: OllamaClient
   private chartGenerator: ChartGenerator
-  private conversationHistory: ChatMessage[] = []
+  private intentClassifier: IntentClassifier
+  private tools: ToolRegistry
+  private datasets: DatasetLibrary
+  private databases: SqliteSource
+  private context: ContextManager
 
-  constructor() {
+  constructor(
+    tools: ToolRegistry = defaultToolRegistry,
+    datasets: DatasetLibrary = defaultDatasetLibrary,
+    databases: SqliteSource = defaultSqliteSource
+  ) {
+    this.tools = tools
+    this.datasets = datasets
+    this.databases = databases
     this.ollama = new OllamaClient()
     this.chartGenerator = new ChartGenerator(this.ollama)
-
-    // Initialize with system prompt
-    this.conversationHistory.push({
-      role: 'system',
-      content: getSystemPrompt()
-    })
+    this.intentClassifier = new IntentClassifier(this.ollama)
+    this.context = new ContextManager(this.ollama, getSystemPrompt())
   }
 
   getModel(): string {
@@ -30,133 +141,866 @@ export class Agent {
     return this.ollama.checkConnection()
   }
 
-  async chat(userMessage: string, callbacks: AgentCallbacks): Promise<string> {
+  async chat(userMessage: string, callbacks: AgentCallbacks, lastChart?: ChartSpec): Promise<string> {
     // Add user message to history
-    this.conversationHistory.push({
+    this.context.add({
       role: 'user',
       content: userMessage
     })
 
-    // Check if user is requesting a chart
-    const isChartRequest = this.isChartRequest(userMessage)
-    console.log(`[Agent] Chart request detected: ${isChartRequest} for message: "${userMessage.substring(0, 50)}..."`)
+    // Every chart the turn renders is kept in the context
+    const onImage = callbacks.onImage
+    callbacks = {
+      ...callbacks,
+      onImage: async (base64Image, chartData, chartOptions, info) => {
+        if (chartData && chartOptions) {
+          this.context.recordChart({ data: chartData, options: chartOptions })
+        }
+        await onImage?.(base64Image, chartData, chartOptions, info)
+      }
+    }
 
-    let fullResponse = ''
+    logger.debug('User message', { message: userMessage })
 
-    if (isChartRequest) {
-      console.log('[Agent] Processing chart request...')
-      // Get chart specification from LLM
-      const chartPrompt = getChartPrompt(userMessage)
-      const chartMessages: ChatMessage[] = [
-        { role: 'system', content: chartPrompt },
-        { role: 'user', content: userMessage }
-      ]
+    // Classified on both paths, so every message's intent is logged
+    const classification = await this.intentClassifier.classify(userMessage, { hasChart: !!lastChart }, callbacks.signal)
+    logger.info('Intent classified', { ...classification })
+    callbacks.onIntent?.(classification)
 
-      fullResponse = await this.ollama.chat(chartMessages, {
-        onToken: callbacks.onToken
-      })
+    let fullResponse: string | null = null
+    if (TOOL_CALLING && this.ollama.supportsTools() !== false) {
+      // Registered tools can claim a chat message before the model sees it
+      const selection = classification.intent === 'chat' ? this.tools.selectForMessage(userMessage) : undefined
+      // null when the model turns out not to support tools
+      fullResponse = selection
+        ? await this.runTool(selection.tool, selection.args, callbacks)
+        : await this.chatWithTools(userMessage, callbacks, lastChart)
+    }
+    if (fullResponse === null) {
+      fullResponse = await this.routeMessage(userMessage, classification, callbacks, lastChart)
+    }
 
-      console.log(`[Agent] LLM response received, length: ${fullResponse.length}`)
-      console.log(`[Agent] LLM full response:\n${fullResponse}`)
+    // Add assistant response to history
+    this.context.add({
+      role: 'assistant',
+      content: fullResponse
+    })
 
-      // Try to parse and generate chart
-      let chartSpec = this.chartGenerator.parseChartDataFromText(fullResponse)
-      console.log(`[Agent] Chart spec parsed:`, chartSpec ? 'success' : 'failed')
+    if (callbacks.onComplete) {
+      callbacks.onComplete(fullResponse)
+    }
 
-      // Fallback: Generate sample chart if parsing failed
-      if (!chartSpec) {
-        console.warn('[Agent] Failed to parse chart specification, generating fallback chart...')
-        chartSpec = this.generateFallbackChart(userMessage)
-      }
+    return fullResponse
+  }
 
-      if (chartSpec && callbacks.onImage) {
-        try {
-          console.log('[Agent] Generating chart image...')
-          
-          // Generate watermark from user message
-          // Extract a watermark prompt from the user message
-          const watermarkPrompt = this.extractWatermarkPrompt(userMessage)
-          
-          // Check if user requested a background image
-          const backgroundImagePrompt = this.extractBackgroundImagePrompt(userMessage)
-          
-          // Add watermark and background prompts to chart options
-          const chartOptionsWithExtras = {
-            ...chartSpec.options,
-            watermarkPrompt,
-            backgroundImagePrompt
-          }
-          
-          const imageBase64 = await this.chartGenerator.generateFromData(
-            chartSpec.data,
-            chartOptionsWithExtras
-          )
-          console.log(`[Agent] Chart image generated successfully, size: ${imageBase64.length} chars`)
-          console.log(`[Agent] Chart data:`, JSON.stringify(chartSpec.data, null, 2))
-          callbacks.onImage(imageBase64, chartSpec.data)
-        } catch (error) {
-          console.error('[Agent] Chart generation error:', error)
-          if (error instanceof Error) {
-            console.error('[Agent] Error stack:', error.stack)
-          }
+  /**
+   * Let the model drive: it calls chart tools, sees their results and finishes with a
+   * text answer. Returns null when the model doesn't support tool calling.
+   */
+  private async chatWithTools(userMessage: string, callbacks: AgentCallbacks, lastChart?: ChartSpec): Promise<string | null> {
+    logger.info('Processing message with tool calling')
+
+    const table = await this.findTable(userMessage) || this.findEarlierTable(userMessage)
+    const [, ...history] = this.context.getMessages()
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: getToolAgentPrompt(lastChart ? this.describeChart(lastChart) : undefined, table ? describeTable(table) : undefined)
+      },
+      ...history
+    ]
+
+    const context: AgentToolContext = {
+      chartGenerator: this.chartGenerator,
+      currentChart: lastChart,
+      table,
+      renderChart: async (spec, claimedSource, sourceData) => {
+        const options = {
+          ...spec.options,
+          watermarkPrompt: this.extractWatermarkPrompt(userMessage),
+          backgroundImagePrompt: this.extractBackgroundImagePrompt(userMessage)
         }
+        const dataSource = this.resolveDataSource(sourceData || spec.data, userMessage, claimedSource)
+        const imageBase64 = await this.chartGenerator.generateFromData(spec.data, options, callbacks.signal)
+        await callbacks.onImage?.(imageBase64, spec.data, options, { dataSource })
+        context.currentChart = { data: spec.data, options }
+        return dataSource
+      },
+      maxDashboardCharts: DASHBOARD_MAX_CHARTS,
+      renderDashboard: async (title, charts) => {
+        const sources = await this.deliverDashboard(title, charts, userMessage, callbacks)
+        context.currentChart = charts[charts.length - 1].spec
+        return sources
+      },
+      listDatasets: () => this.datasets.list(),
+      loadDataset: (name) => this.loadDataset(name),
+      listDatabases: () => this.databases.list(),
+      queryDatabase: (database, sql) => this.runQuery(database, sql, callbacks)
+    }
+
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const result = await this.ollama.chatWithTools(messages, AGENT_TOOLS, {
+          onToken: callbacks.onToken,
+          signal: callbacks.signal
+        })
+        if (result.toolCalls.length === 0) {
+          return result.content
+        }
+
+        messages.push({ role: 'assistant', content: result.content, toolCalls: result.toolCalls })
+        for (const call of result.toolCalls) {
+          messages.push({ role: 'tool', toolName: call.name, content: await this.runAgentTool(call, context, callbacks) })
+        }
+      }
+    } catch (error) {
+      if (error instanceof ToolsUnsupportedError) {
+        logger.info('Model has no tool support, routing by intent instead')
+        return null
+      }
+      throw error
+    }
+
+    logger.warn('Tool call limit reached, asking for a final answer', { rounds: MAX_TOOL_ROUNDS })
+    return this.ollama.chat(messages, {
+      onToken: callbacks.onToken,
+      signal: callbacks.signal
+    })
+  }
+
+  /**
+   * Run one tool call from the model. Failures become the tool's result so the
+   * model can correct the call.
+   */
+  private async runAgentTool(call: ToolCall, context: AgentToolContext, callbacks: AgentCallbacks): Promise<string> {
+    const tool = AGENT_TOOLS.find(t => t.name === call.name)
+    if (!tool) {
+      metrics.agentToolCalls.inc({ tool: 'unknown', outcome: 'error' })
+      return `Error: there is no tool named "${call.name}"`
+    }
+
+    logger.info('Running agent tool', { tool: tool.name })
+    logger.debug('Agent tool arguments', { arguments: call.arguments })
+    callbacks.onStatus?.(`Running ${tool.name}...`)
+
+    try {
+      const output = await tool.run(call.arguments, context)
+      metrics.agentToolCalls.inc({ tool: tool.name, outcome: 'ok' })
+      return output
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error
+      }
+      metrics.agentToolCalls.inc({ tool: tool.name, outcome: 'error' })
+      logger.warn('Agent tool failed', { tool: tool.name, error })
+      return `Error: ${error instanceof Error ? error.message : String(error)}`
+    }
+  }
+
+  /**
+   * Text path for models without tool support: hand the message to the handler
+   * for its intent
+   */
+  private async routeMessage(
+    userMessage: string,
+    classification: IntentClassification,
+    callbacks: AgentCallbacks,
+    lastChart?: ChartSpec
+  ): Promise<string> {
+    let fullResponse: string | null = null
+
+    if (classification.intent === 'new_chart') {
+      fullResponse = await this.createChart(userMessage, callbacks)
+    } else if (classification.intent === 'dashboard') {
+      fullResponse = await this.createDashboard(userMessage, callbacks)
+    } else if (classification.intent === 'modify_chart' && lastChart) {
+      // null when no change could be extracted; the message is then answered as chat
+      fullResponse = await this.modifyChart(userMessage, lastChart, callbacks)
+    } else if (classification.intent === 'data_question' && lastChart) {
+      fullResponse = await this.answerChartQuestion(lastChart, callbacks)
+    } else if (classification.intent === 'export' && lastChart) {
+      fullResponse = this.exportChart(lastChart, callbacks)
+    }
+
+    if (fullResponse === null) {
+      // Registered tools can still claim a chat message
+      const selection = this.tools.selectForMessage(userMessage)
+      if (selection) {
+        fullResponse = await this.runTool(selection.tool, selection.args, callbacks)
       } else {
-        if (!callbacks.onImage) {
-          console.warn('[Agent] No onImage callback provided')
+        logger.info('Processing regular chat')
+        fullResponse = await this.ollama.chat(this.context.getMessages(), {
+          onToken: callbacks.onToken,
+          signal: callbacks.signal
+        })
+      }
+    }
+
+    return fullResponse
+  }
+
+  /**
+   * Conversational chart path: spec from the LLM (repaired if needed, sample data as
+   * a last resort), rendered with watermark and optional background
+   */
+  private async createChart(userMessage: string, callbacks: AgentCallbacks): Promise<string> {
+    logger.info('Processing chart request')
+    const result = await this.requestChartSpec(userMessage, callbacks)
+    let fullResponse = result.response
+
+    let chartSpec = result.spec
+    const sampleData = !chartSpec
+    if (!chartSpec) {
+      logger.warn('No valid chart specification, generating fallback chart', { reason: result.error })
+      chartSpec = this.generateFallbackChart(userMessage)
+      metrics.fallbackCharts.inc()
+
+      const notice = `\n\nI couldn't produce a valid chart specification (${result.error}). ` +
+        'The chart below shows sample data, not real values.'
+      callbacks.onToken?.(notice)
+      fullResponse += notice
+    }
+
+    const dataSource = sampleData
+      ? { kind: 'sample' as const }
+      : this.resolveDataSource(result.sourceData || chartSpec.data, userMessage, result.claimedSource)
+    if (!sampleData) {
+      const notice = `\n\n${this.describeDataSource(dataSource)}`
+      callbacks.onToken?.(notice)
+      fullResponse += notice
+    }
+
+    if (chartSpec && callbacks.onImage) {
+      try {
+        logger.info('Generating chart image')
+        
+        // Generate watermark from user message
+        // Extract a watermark prompt from the user message
+        const watermarkPrompt = this.extractWatermarkPrompt(userMessage)
+        
+        // Check if user requested a background image
+        const backgroundImagePrompt = this.extractBackgroundImagePrompt(userMessage)
+        
+        // Add watermark and background prompts to chart options
+        const chartOptionsWithExtras = {
+          ...chartSpec.options,
+          watermarkPrompt,
+          backgroundImagePrompt
         }
+        
+        const imageBase64 = await this.chartGenerator.generateFromData(
+          chartSpec.data,
+          chartOptionsWithExtras,
+          callbacks.signal
+        )
+        logger.info('Chart image generated', { size: imageBase64.length })
+        logger.debug('Chart data', { chartData: chartSpec.data })
+        await callbacks.onImage(imageBase64, chartSpec.data, chartOptionsWithExtras, { sampleData, dataSource })
+      } catch (error) {
+        if (isCancellationError(error)) {
+          throw error
+        }
+        logger.error('Chart generation error', { error })
       }
     } else {
-      // Regular chat
-      console.log('[Agent] Processing regular chat...')
-      fullResponse = await this.ollama.chat(this.conversationHistory, {
-        onToken: callbacks.onToken
-      })
+      if (!callbacks.onImage) {
+        logger.warn('No onImage callback provided')
+      }
     }
 
-    // Add assistant response to history
-    this.conversationHistory.push({
-      role: 'assistant',
-      content: fullResponse
+    return fullResponse
+  }
+
+  /**
+   * Several coordinated charts for one request, planned by the model in one response.
+   * Invalid charts are left out; without any valid chart this falls back to a single chart.
+   */
+  private async createDashboard(userMessage: string, callbacks: AgentCallbacks): Promise<string> {
+    logger.info('Processing dashboard request')
+    callbacks.onStatus?.('Planning the dashboard...')
+
+    let plan: DashboardParseResult
+    try {
+      const response = await this.ollama.chat([
+        { role: 'system', content: getDashboardPrompt(userMessage, DASHBOARD_MAX_CHARTS, this.context.getChartContext(userMessage)) },
+        { role: 'user', content: userMessage }
+      ], { signal: callbacks.signal })
+      logger.debug('Dashboard plan', { response })
+      plan = this.chartGenerator.parseDashboardSpec(response, DASHBOARD_MAX_CHARTS)
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error
+      }
+      plan = { error: error instanceof Error ? error.message : String(error) }
+    }
+
+    if ('error' in plan) {
+      logger.warn('No usable dashboard plan, making a single chart', { reason: plan.error })
+      return this.createChart(userMessage, callbacks)
+    }
+
+    const { title, charts, skipped } = plan.dashboard
+    if (skipped.length > 0) {
+      logger.warn('Left invalid charts out of the dashboard', { skipped })
+    }
+    const sources = await this.deliverDashboard(title, charts, userMessage, callbacks)
+
+    const userCharts = charts.filter((_, i) => sources[i].kind === 'user').map(chart => chart.spec.options.title || 'Untitled')
+    const sampleCharts = charts.filter((_, i) => sources[i].kind === 'sample').map(chart => chart.spec.options.title || 'Untitled')
+    let response = `Here is the dashboard${title ? ` "${title}"` : ''} with ${charts.length} chart${charts.length === 1 ? '' : 's'}: ` +
+      `${charts.map(chart => `${chart.spec.options.title || 'Untitled'} (${chart.spec.options.type})`).join(', ')}.`
+    if (sampleCharts.length === 0) {
+      response += `\n\n${this.describeDataSource(sources[0])}`
+    } else if (userCharts.length === 0) {
+      response += `\n\n${this.describeDataSource({ kind: 'sample' })}`
+    } else {
+      response += `\n\nData: ${userCharts.join(', ')} use your values; ${sampleCharts.join(', ')} show illustrative sample values.`
+    }
+    if (skipped.length > 0) {
+      response += `\n\n${skipped.length} planned chart${skipped.length === 1 ? ' was' : 's were'} left out because ${skipped.length === 1 ? 'it was' : 'they were'} invalid.`
+    }
+    callbacks.onToken?.(response)
+    return response
+  }
+
+  /**
+   * Render a dashboard's charts and deliver them as separate images tagged with the
+   * dashboard, or composed into one grid image (DASHBOARD_LAYOUT). The layout follows.
+   * Resolves to each chart's data source.
+   */
+  private async deliverDashboard(title: string, charts: ValidChartSpec[], request: string, callbacks: AgentCallbacks): Promise<DataSource[]> {
+    const id = uuidv4()
+    const columns = Math.max(1, Math.min(DASHBOARD_COLUMNS, charts.length))
+    const layout: DashboardLayout = {
+      id,
+      title,
+      mode: DASHBOARD_LAYOUT,
+      columns,
+      charts: charts.map((chart, index) => ({
+        index,
+        title: chart.spec.options.title || '',
+        type: chart.spec.options.type,
+        row: Math.floor(index / columns),
+        column: index % columns
+      }))
+    }
+    logger.info('Rendering dashboard', { dashboardId: id, charts: charts.length, mode: DASHBOARD_LAYOUT })
+
+    const sources: DataSource[] = []
+    const images: string[] = []
+    for (const [index, chart] of charts.entries()) {
+      callbacks.onStatus?.(`Rendering chart ${index + 1} of ${charts.length}...`)
+      const dataSource = this.resolveDataSource(chart.sourceData || chart.spec.data, request, chart.claimedSource)
+      const imageBase64 = await this.chartGenerator.generateFromData(chart.spec.data, chart.spec.options, callbacks.signal)
+      sources.push(dataSource)
+      if (DASHBOARD_LAYOUT === 'grid') {
+        images.push(imageBase64)
+        this.context.recordChart(chart.spec)
+      } else {
+        await callbacks.onImage?.(imageBase64, chart.spec.data, chart.spec.options, { dataSource, dashboard: { id, index } })
+      }
+    }
+
+    if (DASHBOARD_LAYOUT === 'grid') {
+      const composed = await this.chartGenerator.composeDashboard(images, title, columns, callbacks.signal)
+      // The composed image only counts as the user's data when every chart does
+      const dataSource = sources.every(source => source.kind === 'user') ? sources[0] : { kind: 'sample' as const }
+      await callbacks.onImage?.(composed, undefined, undefined, { dataSource, dashboard: { id } })
+    }
+    metrics.dashboards.inc({ layout: DASHBOARD_LAYOUT })
+    await callbacks.onDashboard?.(layout)
+    return sources
+  }
+
+  /**
+   * Ask the LLM for a chart spec. When the response doesn't parse or validate, the
+   * specific error goes back to the model for a corrected spec, up to
+   * CHART_REPAIR_ATTEMPTS times. Only the first response is streamed.
+   */
+  private async requestChartSpec(request: string, callbacks: AgentCallbacks): Promise<ChartSpecResult> {
+    // Data the request points at comes before anything pasted earlier
+    const table = await this.findTable(request)
+    if (table) {
+      return this.requestTableChart(request, table, callbacks)
+    }
+    const database = await this.databases.findMentioned(request)
+    if (database) {
+      return this.requestSqlChart(request, database, callbacks)
+    }
+    const earlierTable = this.findEarlierTable(request)
+    if (earlierTable) {
+      return this.requestTableChart(request, earlierTable, callbacks)
+    }
+
+    // Earlier turns and the user's data, so "chart the numbers above" works
+    const messages: ChatMessage[] = [
+      { role: 'system', content: getChartPrompt(request, this.context.getChartContext(request)) },
+      { role: 'user', content: request }
+    ]
+
+    let response = await this.ollama.chat(messages, {
+      onToken: callbacks.onToken,
+      signal: callbacks.signal
     })
 
-    // Trim history if too long
-    this.trimHistory()
+    for (let attempt = 0; ; attempt++) {
+      throwIfCancelled(callbacks.signal)
+      logger.info('LLM response received', { length: response.length, attempt })
+      logger.debug('LLM full response', { response })
 
-    if (callbacks.onComplete) {
-      callbacks.onComplete(fullResponse)
+      const parsed = this.chartGenerator.parseChartSpec(response)
+      if (attempt > 0) {
+        metrics.chartRepairs.inc({ outcome: 'spec' in parsed ? 'repaired' : 'failed' })
+      }
+      if ('spec' in parsed) {
+        logger.info('Chart spec parsed', { repairs: attempt })
+        return { spec: parsed.spec, claimedSource: parsed.claimedSource, sourceData: parsed.sourceData, response }
+      }
+      if (attempt >= CHART_REPAIR_ATTEMPTS) {
+        return { spec: null, response, error: parsed.error }
+      }
+
+      logger.warn('Asking the LLM to repair the chart spec', { attempt: attempt + 1, reason: parsed.error })
+      callbacks.onStatus?.(`Fixing the chart specification (attempt ${attempt + 1} of ${CHART_REPAIR_ATTEMPTS})...`)
+      messages.push(
+        { role: 'assistant', content: response },
+        { role: 'user', content: getChartRepairPrompt(parsed.error) }
+      )
+      response = await this.ollama.chat(messages, { signal: callbacks.signal })
     }
+  }
 
-    return fullResponse
+  /**
+   * Chart a pasted table: the model only picks the type, title and columns, and the
+   * values are read from the table. An unusable choice falls back to the default columns.
+   */
+  private async requestTableChart(request: string, table: ParsedTable, callbacks: AgentCallbacks): Promise<ChartSpecResult> {
+    logger.info('Charting table', { dataset: table.name, format: table.format, columns: table.columns, rows: table.rows.length })
+    callbacks.onStatus?.(`Reading ${table.name || `the ${table.format.toUpperCase()} table`} (${table.rows.length} rows)...`)
+
+    let result: ChartSpecParseResult
+    try {
+      const response = await this.ollama.chat([
+        { role: 'system', content: getTableChartPrompt(request, describeTable(table)) },
+        { role: 'user', content: request }
+      ], { signal: callbacks.signal })
+      logger.debug('Table column choice', { response })
+      result = this.chartGenerator.parseTableChoice(response, table)
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error
+      }
+      result = { error: error instanceof Error ? error.message : String(error) }
+    }
+
+    let mapping = 'model'
+    if ('error' in result) {
+      logger.warn('Unusable column choice, using the default columns', { reason: result.error })
+      mapping = 'default'
+      result = this.chartGenerator.chartFromTable(table, defaultMapping(table))
+    }
+    metrics.tableCharts.inc({ format: table.format, mapping })
+    if ('error' in result) {
+      // parseTable only returns tables the default columns can chart
+      throw new Error(result.error)
+    }
+
+    const { data } = result.spec
+    const response = `Charted ${data.datasets.map(ds => ds.label).join(', ')} for ${data.labels.length} rows ` +
+      `of ${table.name || `your ${table.format.toUpperCase()} table`}.`
+    callbacks.onToken?.(response)
+    return { spec: result.spec, claimedSource: result.claimedSource, sourceData: result.sourceData, response }
+  }
+
+  /**
+   * A table in the request, or a dataset file it names
+   */
+  private async findTable(request: string): Promise<ParsedTable | undefined> {
+    const pasted = parseTable(request)
+    if (pasted) {
+      return pasted
+    }
+    const dataset = await this.datasets.findMentioned(request)
+    return dataset ? this.loadDataset(dataset) : undefined
+  }
+
+  /**
+   * A table in the user's last few messages ("chart the table above")
+   */
+  private findEarlierTable(request: string): ParsedTable | undefined {
+    const earlier = this.context.getChartContext(request).recentTurns
+      .filter(turn => turn.role === 'user')
+      .map(turn => turn.content)
+      .reverse()
+    for (const text of earlier) {
+      const table = parseTable(text)
+      if (table) {
+        return table
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Chart a database query: the model writes the SELECT, which is shown to the user, and
+   * the result set is charted with its first column as labels. Query errors go back to
+   * the model, up to CHART_REPAIR_ATTEMPTS times.
+   */
+  private async requestSqlChart(request: string, database: DatabaseInfo, callbacks: AgentCallbacks): Promise<ChartSpecResult> {
+    logger.info('Charting database query', { database: database.name })
+    callbacks.onStatus?.(`Writing a query for ${database.name}...`)
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: getSqlChartPrompt(request, describeDatabase(database)) },
+      { role: 'user', content: request }
+    ]
+    let shown = ''
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.ollama.chat(messages, { signal: callbacks.signal })
+      logger.debug('SQL response', { response, attempt })
+
+      let error: string
+      const choice = this.parseSqlChoice(response)
+      if ('error' in choice) {
+        error = choice.error
+      } else {
+        try {
+          const query = `Query on ${database.name}:\n\`\`\`sql\n${choice.sql}\n\`\`\`\n`
+          callbacks.onToken?.(query)
+          shown += query
+          const table = await this.runQuery(database.name, choice.sql, callbacks)
+          const [label, ...values] = table.columns
+          const result = table.rows.length === 0
+            ? { error: 'The query returned no rows' }
+            : this.chartGenerator.chartFromTable(table, {
+              type: choice.type,
+              title: choice.title,
+              labelColumn: label.name,
+              valueColumns: values.map(column => column.name)
+            })
+          if ('spec' in result) {
+            const summary = `\nCharted ${result.spec.data.labels.length} rows from ${database.name}.`
+            callbacks.onToken?.(summary)
+            return {
+              spec: result.spec,
+              claimedSource: { ...(result.claimedSource || { kind: 'user' }), query: choice.sql },
+              sourceData: result.sourceData,
+              response: shown + summary
+            }
+          }
+          error = `${result.error}. The first column must be the labels and the others numeric.`
+        } catch (queryError) {
+          if (!(queryError instanceof SqliteError)) {
+            throw queryError
+          }
+          error = queryError.message
+        }
+      }
+
+      if (attempt >= CHART_REPAIR_ATTEMPTS) {
+        return { spec: null, response: shown, error: `the query on ${database.name} failed: ${error}` }
+      }
+      logger.warn('Asking the LLM to fix the query', { attempt: attempt + 1, reason: error })
+      callbacks.onStatus?.(`Fixing the query (attempt ${attempt + 1} of ${CHART_REPAIR_ATTEMPTS})...`)
+      messages.push(
+        { role: 'assistant', content: response },
+        { role: 'user', content: getSqlRepairPrompt(error) }
+      )
+    }
+  }
+
+  /**
+   * TYPE, TITLE and the SQL from a query response
+   */
+  private parseSqlChoice(text: string): { sql: string; type?: string; title?: string } | { error: string } {
+    const sql = (text.match(/```sql\s*([\s\S]*?)```/i) || text.match(/```\s*([\s\S]*?)```/))?.[1].trim()
+    if (!sql) {
+      return { error: 'No ```sql block was found in the response' }
+    }
+    return {
+      sql,
+      type: text.match(/^\s*TYPE:\s*(\w+)/im)?.[1].toLowerCase(),
+      title: text.match(/^\s*TITLE:\s*(.+)$/im)?.[1].trim()
+    }
+  }
+
+  /**
+   * Run a read-only query for the user; its numbers count as the user's data from now on.
+   * The SQL reaches the user with the chart's dataSource.
+   */
+  private async runQuery(database: string, sql: string, callbacks: AgentCallbacks): Promise<ParsedTable> {
+    logger.debug('Running query', { database, sql })
+    callbacks.onStatus?.(`Running the query on ${database}...`)
+    const result = await this.databases.query(database, sql, callbacks.signal)
+    if (result.truncated) {
+      callbacks.onStatus?.(`Only the first ${result.table.rows.length} rows of the result are used`)
+    }
+    this.context.addDatasetValues(this.tableValues(result.table))
+    return result.table
+  }
+
+  /**
+   * A dataset from the library. Its numbers count as the user's data from now on.
+   */
+  private async loadDataset(name: string): Promise<ParsedTable | undefined> {
+    const dataset = await this.datasets.get(name)
+    if (!dataset) {
+      return undefined
+    }
+    logger.info('Loaded dataset', { dataset: name, rows: dataset.info.rowCount })
+    this.context.addDatasetValues(this.tableValues(dataset.table))
+    return dataset.table
   }
 
-  async generateDataChart(data: unknown): Promise<string> {
-    const chartData = data as { data: ChartData; options: ChartOptions }
-    return this.chartGenerator.generateFromData(chartData.data, chartData.options)
+  private tableValues(table: ParsedTable): number[] {
+    return table.rows.flat().map(parseNumber).filter((value): value is number => value !== null)
   }
 
-  async generateAIChart(prompt: string, callbacks?: OllamaStreamCallbacks): Promise<string> {
-    const chartPrompt = getChartPrompt(prompt)
+  /**
+   * Chart from a caller's spec. Its transforms are applied first, and the chart has the
+   * transformed data; invalid data or transforms throw.
+   */
+  async generateDataChart(input: unknown, signal?: AbortSignal): Promise<ChartSpec & { imageBase64: string }> {
+    const result = this.chartGenerator.validateDataChart(input)
+    if ('error' in result) {
+      throw new ChartDataError(`Invalid chart data: ${result.error}`)
+    }
 
-    const response = await this.ollama.generate(chartPrompt, callbacks)
+    const chartSpec = result.spec
+    const imageBase64 = await this.chartGenerator.generateFromData(chartSpec.data, chartSpec.options, signal)
+    this.context.recordChart(chartSpec)
+    return { ...chartSpec, imageBase64 }
+  }
 
-    const chartSpec = this.chartGenerator.parseChartDataFromText(response)
+  /**
+   * Chart from a description, with the same repair loop as chat. Falls back to a
+   * sample-data chart, flagged with sampleData, instead of failing.
+   */
+  async generateAIChart(
+    prompt: string,
+    callbacks: AgentCallbacks = {}
+  ): Promise<ChartSpec & { imageBase64: string; sampleData: boolean; dataSource: DataSource; error?: string }> {
+    const result = await this.requestChartSpec(prompt, callbacks)
 
+    let chartSpec = result.spec
     if (!chartSpec) {
-      throw new Error('Failed to generate valid chart specification from AI response')
+      logger.warn('No valid chart specification, generating fallback chart', { reason: result.error })
+      chartSpec = this.generateFallbackChart(prompt)
+      metrics.fallbackCharts.inc()
     }
 
-    return this.chartGenerator.generateFromData(chartSpec.data, chartSpec.options)
+    const imageBase64 = await this.chartGenerator.generateFromData(chartSpec.data, chartSpec.options, callbacks.signal)
+    this.context.recordChart(chartSpec)
+    const dataSource = result.spec
+      ? this.resolveDataSource(result.sourceData || chartSpec.data, prompt, result.claimedSource)
+      : { kind: 'sample' as const }
+    return { ...chartSpec, imageBase64, sampleData: !result.spec, dataSource, error: result.error }
   }
 
-  private isChartRequest(message: string): boolean {
-    const chartKeywords = [
-      'chart', 'graph', 'plot', 'visualize', 'visualization',
-      'bar chart', 'line chart', 'pie chart', 'histogram',
-      'show me', 'create a', 'generate a', 'draw a'
+  /**
+   * Run a registered tool for a chat message. Charts it renders go through onImage;
+   * its text content becomes the response.
+   */
+  private async runTool(tool: Tool, args: Record<string, unknown>, callbacks: AgentCallbacks): Promise<string> {
+    logger.info('Running tool', { tool: tool.name })
+
+    const result = await tool.handler(args, {
+      agent: this,
+      signal: callbacks.signal,
+      onToken: tool.streaming ? callbacks.onToken : undefined,
+      onStatus: callbacks.onStatus,
+      saveChart: async (chart) => {
+        await callbacks.onImage?.(chart.imageBase64, chart.chartData, chart.chartOptions, {
+          sampleData: chart.sampleData,
+          dataSource: chart.dataSource
+        })
+        return undefined
+      }
+    })
+
+    return result.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .filter(Boolean)
+      .join('\n')
+  }
+
+  /**
+   * Apply a follow-up request to the last chart and re-render it.
+   * Returns null when no modification could be extracted so the caller can
+   * treat the message as a regular request instead.
+   */
+  private async modifyChart(userMessage: string, lastChart: ChartSpec, callbacks: AgentCallbacks): Promise<string | null> {
+    logger.info('Processing chart modification')
+
+    const currentChart = this.describeChart(lastChart)
+
+    let modification: ChartModification | null = null
+    try {
+      const response = await this.ollama.chat([
+        { role: 'system', content: getChartModificationPrompt(currentChart, userMessage) },
+        { role: 'user', content: userMessage }
+      ], { signal: callbacks.signal })
+      modification = this.chartGenerator.parseModificationFromText(response)
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error
+      }
+      logger.error('Modification request to LLM failed', { error })
+    }
+
+    // Fallback: simple keyword extraction for type, title and color changes
+    if (!modification) {
+      modification = this.extractModificationIntent(userMessage)
+    }
+
+    if (!modification) {
+      logger.warn('No chart modification found in message')
+      return null
+    }
+
+    logger.info('Applying chart modification', { modification })
+
+    let response: string
+    try {
+      const updated = this.chartGenerator.applyModification(lastChart.data, lastChart.options, modification)
+      const imageBase64 = await this.chartGenerator.generateFromData(updated.data, updated.options, callbacks.signal)
+      await callbacks.onImage?.(imageBase64, updated.data, updated.options, {
+        dataSource: this.resolveDataSource(updated.data, userMessage)
+      })
+      response = this.describeModification(modification)
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error
+      }
+      logger.error('Chart modification error', { error })
+      const reason = error instanceof Error ? error.message : 'unknown error'
+      response = `I couldn't apply that change to the chart: ${reason}`
+    }
+
+    callbacks.onToken?.(response)
+    return response
+  }
+
+  /**
+   * Answer a question about the values in the last chart, with the conversation so far
+   */
+  private async answerChartQuestion(lastChart: ChartSpec, callbacks: AgentCallbacks): Promise<string> {
+    logger.info('Answering question about the chart data')
+
+    const [systemPrompt, ...history] = this.context.getMessages()
+    return this.ollama.chat([
+      systemPrompt,
+      { role: 'system', content: getChartQuestionPrompt(this.describeChart(lastChart)) },
+      ...history
+    ], {
+      onToken: callbacks.onToken,
+      signal: callbacks.signal
+    })
+  }
+
+  /**
+   * Export the last chart's data as CSV; the PNG is already downloadable from the chat
+   */
+  private exportChart(lastChart: ChartSpec, callbacks: AgentCallbacks): string {
+    logger.info('Exporting chart data')
+
+    const { labels, datasets } = lastChart.data
+    const rows = [
+      ['label', ...datasets.map(ds => ds.label)],
+      ...labels.map((label, i) => [label, ...datasets.map(ds => ds.data[i] ?? '')])
     ]
+    const csv = rows.map(row => row.map(toCsvField).join(',')).join('\n')
+    const title = lastChart.options.title ? ` "${lastChart.options.title}"` : ''
+
+    const response = `Here is the data behind the chart${title} as CSV:\n\n\`\`\`csv\n${csv}\n\`\`\`\n\n` +
+      'Use the download button on the chart to save the image.'
+    callbacks.onToken?.(response)
+    return response
+  }
+
+  /**
+   * The chart holds the user's data when most of its values appear in what they wrote;
+   * the model's claim only contributes the note
+   */
+  private resolveDataSource(data: ChartData, request: string, claimed?: DataSource): DataSource {
+    const values = data.datasets.flatMap(ds => ds.data)
+    const kind = this.context.matchesUserData(values, request) ? 'user' : 'sample'
+    if (claimed && claimed.kind !== kind) {
+      logger.warn('Data source claimed by the model does not match the values', { claimed: claimed.kind, kind })
+    }
+    return claimed?.kind === kind ? { ...claimed } : { kind }
+  }
 
+  private describeDataSource(dataSource: DataSource): string {
+    if (dataSource.kind === 'user') {
+      return `Data: your values${dataSource.note ? ` (${dataSource.note})` : ''}.`
+    }
+    return 'Data: illustrative sample values, not real figures. Share your numbers to chart them instead.'
+  }
+
+  private describeChart(chart: ChartSpec): string {
+    return JSON.stringify({
+      type: chart.options.type,
+      title: chart.options.title,
+      labels: chart.data.labels,
+      datasets: chart.data.datasets.map(ds => ({ label: ds.label, data: ds.data }))
+    }, null, 2)
+  }
+
+  /**
+   * Keyword-based modification extraction, used when the LLM response can't be parsed
+   */
+  private extractModificationIntent(message: string): ChartModification | null {
     const lowerMessage = message.toLowerCase()
-    return chartKeywords.some(keyword => lowerMessage.includes(keyword))
+    const modification: ChartModification = {}
+
+    const typeMatch = lowerMessage.match(/\b(?:to|into|as|use|it)\s+(?:an?\s+)?(bar|line|pie|doughnut)\b/)
+    if (typeMatch) {
+      modification.type = typeMatch[1] as ChartOptions['type']
+    }
+
+    const titleMatch = message.match(/title\s*(?:to|as|:)?\s*["'\u201c]([^"'\u201d]+)["'\u201d]/i)
+    if (titleMatch) {
+      modification.title = titleMatch[1].trim()
+    }
+
+    const colorMatch = lowerMessage.match(new RegExp(`\\b(${COLOR_NAMES.join('|')})\\b`))
+    if (colorMatch) {
+      modification.color = colorMatch[1]
+    }
+
+    return Object.keys(modification).length > 0 ? modification : null
+  }
+
+  private describeModification(modification: ChartModification): string {
+    const changes: string[] = []
+
+    if (modification.type) {
+      changes.push(`switched to a ${modification.type} chart`)
+    }
+    if (modification.title !== undefined) {
+      changes.push(`set the title to "${modification.title}"`)
+    }
+    if (modification.color) {
+      changes.push(`colored the data ${modification.color}`)
+    }
+    for (const [label, color] of Object.entries(modification.colors || {})) {
+      changes.push(`colored "${label}" ${color}`)
+    }
+    if (modification.labels) {
+      changes.push('updated the labels')
+    }
+    for (const dataset of modification.datasets || []) {
+      changes.push(`added or updated the "${dataset.label}" dataset`)
+    }
+    for (const label of modification.removeDatasets || []) {
+      changes.push(`removed the "${label}" dataset`)
+    }
+    if (modification.removeLabels?.length) {
+      changes.push(`removed ${modification.removeLabels.map(l => `"${l}"`).join(', ')}`)
+    }
+
+    return `I've updated the chart: ${changes.join(', ')}.`
   }
 
   private generateFallbackChart(userMessage: string): { data: ChartData; options: ChartOptions } {
@@ -196,7 +1040,7 @@ export class Agent {
       },
       options: {
         type: chartType,
-        title: 'Generated Chart',
+        title: 'Sample Chart (placeholder data)',
         watermarkPrompt: this.extractWatermarkPrompt(userMessage)
       }
     }
@@ -256,7 +1100,7 @@ export class Agent {
       }
       
       if (backgroundDesc && backgroundDesc.length > 2) {
-        console.log('[Agent] Background image requested:', backgroundDesc)
+        logger.info('Background image requested', { background: backgroundDesc })
         return backgroundDesc
       }
     }
@@ -264,19 +1108,24 @@ export class Agent {
     return undefined
   }
 
-  private trimHistory() {
-    // Keep system prompt + last 20 messages
-    const maxMessages = 21
-    if (this.conversationHistory.length > maxMessages) {
-      const systemPrompt = this.conversationHistory[0]
-      this.conversationHistory = [
-        systemPrompt,
-        ...this.conversationHistory.slice(-20)
-      ]
-    }
+  needsCompaction(): boolean {
+    return this.context.needsCompaction()
+  }
+
+  /**
+   * Summarize the older turns of the conversation. Never throws; the server runs it
+   * as its own scheduler job after a chat response.
+   */
+  compactHistory(signal?: AbortSignal): Promise<void> {
+    return this.context.compact(signal)
   }
 
   clearHistory() {
-    this.conversationHistory = [this.conversationHistory[0]]
+    this.context.clear()
   }
 }
+
+function toCsvField(value: string | number): string {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,149 @@
+// Intent Classifier - Labels a chat message as chat, new chart, dashboard, chart modification,
+// question about the chart's data, or export, so the Agent can route it
+//
+//   INTENT_CLASSIFIER=llm|rules    Ask the model first (default), or only use the keyword rules
+//   INTENT_MIN_CONFIDENCE=0.5      Model answers below this confidence fall back to the rules
+
+import { OllamaClient } from './ollama.js'
+import { getIntentPrompt } from '../utils/prompts.js'
+import { isCancellationError } from '../utils/cancellation.js'
+import { createLogger } from '../utils/logger.js'
+import { metrics } from '../utils/metrics.js'
+
+const logger = createLogger('IntentClassifier')
+
+export const INTENTS = ['chat', 'new_chart', 'dashboard', 'modify_chart', 'data_question', 'export'] as const
+
+export type Intent = typeof INTENTS[number]
+
+export interface IntentClassification {
+  intent: Intent
+  // 0-1; rule results use fixed values per rule
+  confidence: number
+  source: 'llm' | 'rules'
+  latencyMs: number
+}
+
+export interface IntentContext {
+  // Whether the session has a chart that could be modified, questioned or exported
+  hasChart: boolean
+}
+
+const USE_LLM = process.env.INTENT_CLASSIFIER !== 'rules'
+const MIN_CONFIDENCE = process.env.INTENT_MIN_CONFIDENCE ? parseFloat(process.env.INTENT_MIN_CONFIDENCE) : 0.5
+
+// Nouns and verbs that only make sense for a visualization
+const CHART_PATTERN = /\b(chart|graph|plot|visuali[sz](e|ation)|histogram|diagram)s?\b/
+// Analytical phrasing that implies a chart even without the word "chart"
+const ANALYSIS_PATTERN = /\b(compare|comparison|breakdown|break down|distribution|trend|trends|over time|versus|vs\.?|share of|proportion|by (month|quarter|year|region|category|product))\b/
+const EXPORT_PATTERN = /\b(export|download|save)\b|\b(as|to|in)\s+(csv|png|json|excel|xlsx|a file)\b/
+const MODIFICATION_PATTERN = /\b(change|modify|update|edit|make it|make the|set the|adjust|switch|convert|rename|add|remove|replace|instead|colou?r|title)\b/
+const FRESH_CHART_PATTERN = /\b(new|another|different|separate)\s+(chart|graph|plot)\b/
+// Several views at once: "a dashboard", "an overview", "sales by region, product and month"
+const DASHBOARD_PATTERN = /\b(dashboards?|overview|(several|multiple|a few)\s+(charts|graphs|plots))\b|\bby\s+\w+(\s*,\s*\w+)+,?\s+and\s+\w+/
+const QUESTION_PATTERN = /\b(which|what|how many|how much|highest|lowest|largest|smallest|average|mean|total|sum|max|maximum|min|minimum|difference)\b/
+
+export class IntentClassifier {
+  private ollama: OllamaClient
+
+  constructor(ollama: OllamaClient) {
+    this.ollama = ollama
+  }
+
+  /**
+   * Ask the model for the intent; fall back to the rules when it fails, answers
+   * with something unparseable, or isn't confident enough
+   */
+  async classify(message: string, context: IntentContext, signal?: AbortSignal): Promise<IntentClassification> {
+    const classification = await this.classifyMessage(message, context, signal)
+    metrics.intents.inc({ intent: classification.intent, source: classification.source })
+    return classification
+  }
+
+  private async classifyMessage(message: string, context: IntentContext, signal?: AbortSignal): Promise<IntentClassification> {
+    const startTime = Date.now()
+
+    if (USE_LLM) {
+      try {
+        const response = await this.ollama.chat([
+          { role: 'system', content: getIntentPrompt(context.hasChart) },
+          { role: 'user', content: message }
+        ], { signal })
+        const parsed = this.parseClassification(response)
+
+        if (parsed && parsed.confidence >= MIN_CONFIDENCE) {
+          return this.applyContext({ ...parsed, source: 'llm', latencyMs: Date.now() - startTime }, context)
+        }
+        logger.warn('Model classification unusable, using rules', { parsed: !!parsed, confidence: parsed?.confidence })
+      } catch (error) {
+        if (isCancellationError(error)) {
+          throw error
+        }
+        logger.warn('Model classification failed, using rules', { error })
+      }
+    }
+
+    return { ...this.classifyWithRules(message, context), latencyMs: Date.now() - startTime }
+  }
+
+  /**
+   * Deterministic keyword rules, checked from the most to the least specific intent
+   */
+  classifyWithRules(message: string, context: IntentContext): Omit<IntentClassification, 'latencyMs'> {
+    const lowerMessage = message.toLowerCase()
+    const mentionsChart = CHART_PATTERN.test(lowerMessage)
+    const result = (intent: Intent, confidence: number) => ({ intent, confidence, source: 'rules' as const })
+
+    if (context.hasChart && EXPORT_PATTERN.test(lowerMessage)) {
+      return result('export', 0.8)
+    }
+    if (DASHBOARD_PATTERN.test(lowerMessage)) {
+      return result('dashboard', 0.8)
+    }
+    if (FRESH_CHART_PATTERN.test(lowerMessage)) {
+      return result('new_chart', 0.9)
+    }
+    if (context.hasChart && MODIFICATION_PATTERN.test(lowerMessage)) {
+      return result('modify_chart', 0.7)
+    }
+    if (mentionsChart) {
+      return result('new_chart', 0.8)
+    }
+    if (ANALYSIS_PATTERN.test(lowerMessage)) {
+      return result('new_chart', 0.6)
+    }
+    if (context.hasChart && QUESTION_PATTERN.test(lowerMessage) && lowerMessage.includes('?')) {
+      return result('data_question', 0.6)
+    }
+    return result('chat', 0.5)
+  }
+
+  parseClassification(text: string): { intent: Intent; confidence: number } | null {
+    const jsonMatch = text.match(/\{[\s\S]*?\}/)
+    if (!jsonMatch) {
+      return null
+    }
+
+    try {
+      const parsed = JSON.parse(jsonMatch[0])
+      const intent = typeof parsed.intent === 'string' ? parsed.intent.trim().toLowerCase().replace(/[\s-]+/g, '_') : ''
+      if (!(INTENTS as readonly string[]).includes(intent)) {
+        return null
+      }
+      const confidence = typeof parsed.confidence === 'number' ? Math.min(1, Math.max(0, parsed.confidence)) : 0
+      return { intent: intent as Intent, confidence }
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Without a chart, a modification is really a new chart and questions or exports are just chat
+   */
+  private applyContext(classification: IntentClassification, context: IntentContext): IntentClassification {
+    if (context.hasChart || ['chat', 'new_chart', 'dashboard'].includes(classification.intent)) {
+      return classification
+    }
+    return { ...classification, intent: classification.intent === 'modify_chart' ? 'new_chart' : 'chat' }
+  }
+}
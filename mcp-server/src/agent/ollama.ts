@@ -1,16 +1,61 @@
-import { Ollama } from 'ollama'
+import { Ollama, Message, Tool as OllamaTool } from 'ollama'
+import { RequestCancelledError, isCancellationError, throwIfCancelled } from '../utils/cancellation.js'
+import { createLogger } from '../utils/logger.js'
+import { metrics, tokenRate } from '../utils/metrics.js'
+import type { JsonSchema } from '../mcp/protocol.js'
+
+const logger = createLogger('Ollama')
 
 const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434'
 const DEFAULT_MODEL = process.env.OLLAMA_MODEL || 'phi3:mini'
 
+// Whether each model accepted requests with tools, shared by every OllamaClient so
+// sessions don't each rediscover it; unknown until the first such request
+const toolSupport = new Map<string, boolean>()
+
 export interface OllamaStreamCallbacks {
   onToken?: (token: string) => void
   onComplete?: (fullResponse: string) => void
+  // Aborting stops the Ollama stream and rejects with RequestCancelledError
+  signal?: AbortSignal
 }
 
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant'
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  // Calls the model made in an assistant message
+  toolCalls?: ToolCall[]
+  // The tool whose result a tool message carries
+  toolName?: string
+}
+
+/**
+ * A function the model may call instead of (or before) answering
+ */
+export interface FunctionTool {
+  name: string
+  description: string
+  parameters: JsonSchema
+}
+
+export interface ToolCall {
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export interface ChatResult {
   content: string
+  toolCalls: ToolCall[]
+}
+
+/**
+ * The model rejected a request with tools; callers fall back to plain chat
+ */
+export class ToolsUnsupportedError extends Error {
+  constructor(model: string) {
+    super(`Model ${model} does not support tool calling`)
+    this.name = 'ToolsUnsupportedError'
+  }
 }
 
 export class OllamaClient {
@@ -26,75 +71,198 @@ export class OllamaClient {
     return this.model
   }
 
+  /**
+   * False once the model has rejected a request with tools
+   */
+  supportsTools(): boolean | undefined {
+    return toolSupport.get(this.model)
+  }
+
   async chat(messages: ChatMessage[], callbacks?: OllamaStreamCallbacks): Promise<string> {
+    const result = await this.streamChat(messages, callbacks)
+    return result.content
+  }
+
+  /**
+   * Chat with functions the model may call. Content tokens stream as usual; the calls
+   * arrive together in the result. Throws ToolsUnsupportedError for models without
+   * tool support.
+   */
+  async chatWithTools(messages: ChatMessage[], tools: FunctionTool[], callbacks?: OllamaStreamCallbacks): Promise<ChatResult> {
+    if (toolSupport.get(this.model) === false) {
+      throw new ToolsUnsupportedError(this.model)
+    }
+    const result = await this.streamChat(messages, callbacks, tools)
+    toolSupport.set(this.model, true)
+    return result
+  }
+
+  private async streamChat(messages: ChatMessage[], callbacks?: OllamaStreamCallbacks, tools?: FunctionTool[]): Promise<ChatResult> {
     let fullResponse = ''
+    const toolCalls: ToolCall[] = []
+    const startTime = Date.now()
+    const endTimer = metrics.ollamaDuration.startTimer({ operation: 'chat' })
+
+    const signal = callbacks?.signal
+    let abortStream: (() => void) | undefined
 
     try {
-      console.log(`[Ollama] Sending chat request to ${OLLAMA_HOST} with model ${this.model}`)
-      const response = await this.client.chat({
+      throwIfCancelled(signal)
+      logger.info('Sending chat request', { host: OLLAMA_HOST, model: this.model, messages: messages.length, tools: tools?.length })
+      const response = await this.withAbort(this.client.chat({
         model: this.model,
-        messages,
+        messages: messages.map(toOllamaMessage),
+        tools: tools?.map(toOllamaTool),
         stream: true
-      })
+      }), signal)
+
+      abortStream = () => response.abort()
+      signal?.addEventListener('abort', abortStream, { once: true })
 
       for await (const chunk of response) {
         const token = chunk.message.content
         fullResponse += token
+        this.countToken('chat')
+
+        for (const call of chunk.message.tool_calls || []) {
+          toolCalls.push({ name: call.function.name, arguments: call.function.arguments || {} })
+        }
 
         if (callbacks?.onToken) {
           callbacks.onToken(token)
         }
       }
 
+      // The iterator may end quietly instead of throwing once aborted
+      throwIfCancelled(signal)
+
       if (callbacks?.onComplete) {
         callbacks.onComplete(fullResponse)
       }
 
-      console.log(`[Ollama] Chat completed, response length: ${fullResponse.length}`)
-      return fullResponse
+      endTimer()
+      logger.info('Chat completed', { responseLength: fullResponse.length, toolCalls: toolCalls.length, latencyMs: Date.now() - startTime })
+      logger.debug('Chat response', { response: fullResponse, toolCalls })
+      return { content: fullResponse, toolCalls }
     } catch (error) {
-      console.error(`[Ollama] Chat error:`, error)
+      if (isCancellationError(error) || signal?.aborted) {
+        logger.info('Chat cancelled', { responseLength: fullResponse.length })
+        throw new RequestCancelledError()
+      }
+      // e.g. "registry.ollama.ai/library/phi3:mini does not support tools"
+      if (tools && error instanceof Error && /does not support tools/i.test(error.message)) {
+        logger.warn('Model does not support tool calling', { model: this.model })
+        toolSupport.set(this.model, false)
+        throw new ToolsUnsupportedError(this.model)
+      }
+      metrics.ollamaErrors.inc({ operation: 'chat' })
+      logger.error('Chat failed', { error })
       if (error instanceof Error) {
-        console.error(`[Ollama] Error message: ${error.message}`)
-        console.error(`[Ollama] Error stack:`, error.stack)
         throw new Error(`Ollama error: ${error.message}`)
       }
       throw error
+    } finally {
+      if (abortStream) {
+        signal?.removeEventListener('abort', abortStream)
+      }
     }
   }
 
   async generate(prompt: string, callbacks?: OllamaStreamCallbacks): Promise<string> {
     let fullResponse = ''
+    const startTime = Date.now()
+    const endTimer = metrics.ollamaDuration.startTimer({ operation: 'generate' })
+    const signal = callbacks?.signal
+    let abortStream: (() => void) | undefined
 
     try {
-      const response = await this.client.generate({
+      throwIfCancelled(signal)
+      logger.info('Sending generate request', { host: OLLAMA_HOST, model: this.model })
+      logger.debug('Generate prompt', { prompt })
+      const response = await this.withAbort(this.client.generate({
         model: this.model,
         prompt,
         stream: true
-      })
+      }), signal)
+
+      abortStream = () => response.abort()
+      signal?.addEventListener('abort', abortStream, { once: true })
 
       for await (const chunk of response) {
         const token = chunk.response
         fullResponse += token
+        this.countToken('generate')
 
         if (callbacks?.onToken) {
           callbacks.onToken(token)
         }
       }
 
+      throwIfCancelled(signal)
+
       if (callbacks?.onComplete) {
         callbacks.onComplete(fullResponse)
       }
 
+      endTimer()
+      logger.info('Generate completed', { responseLength: fullResponse.length, latencyMs: Date.now() - startTime })
+      logger.debug('Generate response', { response: fullResponse })
       return fullResponse
     } catch (error) {
+      if (isCancellationError(error) || signal?.aborted) {
+        throw new RequestCancelledError()
+      }
+      metrics.ollamaErrors.inc({ operation: 'generate' })
+      logger.error('Generate failed', { error })
       if (error instanceof Error) {
         throw new Error(`Ollama error: ${error.message}`)
       }
       throw error
+    } finally {
+      if (abortStream) {
+        signal?.removeEventListener('abort', abortStream)
+      }
     }
   }
 
+  // Each streamed chunk carries one token
+  private countToken(operation: 'chat' | 'generate') {
+    metrics.ollamaTokens.inc({ operation })
+    tokenRate.addTokens(1)
+  }
+
+  /**
+   * The Ollama client can only abort a stream once the response has started,
+   * which may take a while when the model is still loading. Reject as soon as
+   * the signal fires and abort the stream whenever it does arrive.
+   */
+  private withAbort<T extends { abort(): void }>(request: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return request
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        request.then(stream => stream.abort(), () => {})
+        reject(new RequestCancelledError())
+      }
+      if (signal.aborted) {
+        onAbort()
+        return
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+
+      request.then(
+        stream => {
+          signal.removeEventListener('abort', onAbort)
+          resolve(stream)
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort)
+          reject(error)
+        }
+      )
+    })
+  }
+
   async checkConnection(): Promise<boolean> {
     try {
       const response = await this.client.list()
@@ -105,8 +273,28 @@ export class OllamaClient {
   }
 
   async pullModel(): Promise<void> {
-    console.log(`Pulling model ${this.model}...`)
+    logger.info('Pulling model', { model: this.model })
     await this.client.pull({ model: this.model })
-    console.log(`Model ${this.model} pulled successfully`)
+    logger.info('Model pulled', { model: this.model })
+  }
+}
+
+function toOllamaMessage(message: ChatMessage): Message {
+  return {
+    role: message.role,
+    content: message.content,
+    ...(message.toolCalls ? { tool_calls: message.toolCalls.map(call => ({ function: call })) } : {}),
+    ...(message.toolName ? { tool_name: message.toolName } : {})
+  }
+}
+
+function toOllamaTool(tool: FunctionTool): OllamaTool {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as OllamaTool['function']['parameters']
+    }
   }
 }
@@ -0,0 +1,278 @@
+// Table Parser - Finds tabular data pasted into a message (CSV, TSV, Markdown table or a
+// JSON array of records) and turns it into ChartData without the model touching the values.
+// The model only picks the chart type, title and which columns to plot.
+
+import type { ChartData } from './chartGenerator.js'
+
+// sql: the result set of a database query
+export type TableFormat = 'csv' | 'tsv' | 'markdown' | 'json' | 'sql'
+
+export type ColumnType = 'number' | 'date' | 'string'
+
+export interface TableColumn {
+  name: string
+  type: ColumnType
+}
+
+export interface ParsedTable {
+  format: TableFormat
+  columns: TableColumn[]
+  // Cells as written, one array per row, aligned with columns
+  rows: string[][]
+  // Dataset file or database the table was read from; unset for pasted tables
+  name?: string
+}
+
+export interface TableMapping {
+  // Column whose cells become the chart's labels
+  labelColumn: string
+  // Number columns that become datasets, in order
+  valueColumns: string[]
+}
+
+// Rows shown to the model when it chooses the mapping
+const PREVIEW_ROWS = 5
+// CSV needs more rows than the other formats, since prose often has commas
+const MIN_CSV_ROWS = 2
+
+const CURRENCY = /^[$€£¥]/
+const THOUSANDS = /^-?\d{1,3}(,\d{3})+(\.\d+)?$/
+const PLAIN_NUMBER = /^-?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i
+const DATE_VALUE = /^(\d{4}-\d{1,2}(-\d{1,2})?|\d{1,2}\/\d{1,2}\/\d{2,4}|q[1-4]\s*\d{4}|\d{4}\s*q[1-4]|(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?(\s+\d{2,4})?)$/i
+const DATE_HEADER = /\b(year|date|month|quarter|week|day|period|time)\b/i
+
+/**
+ * Read a cell as a number: "1,200", "$3.50", "12%" and "-4" all count. Null when it isn't one.
+ */
+export function parseNumber(cell: string): number | null {
+  let text = cell.trim().replace(CURRENCY, '').replace(/%$/, '').trim()
+  if (THOUSANDS.test(text)) {
+    text = text.replace(/,/g, '')
+  }
+  return PLAIN_NUMBER.test(text) ? parseFloat(text) : null
+}
+
+/**
+ * The first table in the text, preferring fenced code blocks, or null when there is none
+ */
+export function parseTable(text: string): ParsedTable | null {
+  const blocks = [...text.matchAll(/```[a-z]*\n([\s\S]*?)```/gi)].map(match => match[1])
+  for (const candidate of [...blocks, text]) {
+    const table = parseJsonRecords(candidate) || parseMarkdownTable(candidate) || parseDelimited(candidate)
+    // Only tables with a label and at least one number column can be charted
+    if (table && table.columns.length >= 2 && defaultMapping(table).valueColumns.length > 0) {
+      return table
+    }
+  }
+  return null
+}
+
+/**
+ * A whole file in a known format, or null when it holds no table
+ */
+export function parseTableFile(text: string, format: TableFormat): ParsedTable | null {
+  switch (format) {
+    case 'json':
+      return parseJsonRecords(text)
+    case 'markdown':
+      return parseMarkdownTable(text)
+    case 'csv':
+    case 'tsv':
+      return parseDelimited(text, format)
+    default:
+      return null
+  }
+}
+
+/**
+ * A table from records (JSON objects or query rows); the columns are the union of their keys
+ */
+export function tableFromRecords(records: Record<string, unknown>[], format: TableFormat): ParsedTable {
+  const names: string[] = []
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!names.includes(key)) names.push(key)
+    }
+  }
+  const rows = records.map(record =>
+    names.map(name => record[name] === undefined || record[name] === null ? '' : String(record[name])))
+  return buildTable(format, names, rows)
+}
+
+/**
+ * Label column: the first text or date column, else the first column. Values: every other number column.
+ */
+export function defaultMapping(table: ParsedTable): TableMapping {
+  const label = table.columns.find(column => column.type !== 'number') || table.columns[0]
+  return {
+    labelColumn: label.name,
+    valueColumns: table.columns
+      .filter(column => column.type === 'number' && column !== label)
+      .map(column => column.name)
+  }
+}
+
+/**
+ * Check a mapping chosen by the model against the table; the error says what to fix
+ */
+export function validateMapping(table: ParsedTable, mapping: Partial<TableMapping>): { mapping: TableMapping } | { error: string } {
+  const names = table.columns.map(column => `"${column.name}"`).join(', ')
+  const label = table.columns.find(column => column.name === mapping.labelColumn)
+  if (!label) {
+    return { error: `labelColumn must be one of the columns: ${names}` }
+  }
+  if (!Array.isArray(mapping.valueColumns) || mapping.valueColumns.length === 0) {
+    return { error: 'valueColumns must list at least one number column' }
+  }
+  for (const name of mapping.valueColumns) {
+    const column = table.columns.find(c => c.name === name)
+    if (!column) {
+      return { error: `"${name}" is not a column; the columns are ${names}` }
+    }
+    if (column.type !== 'number') {
+      return { error: `"${name}" is a ${column.type} column; valueColumns must be number columns` }
+    }
+  }
+  return { mapping: { labelColumn: label.name, valueColumns: mapping.valueColumns.map(String) } }
+}
+
+/**
+ * The chart data for a mapping, read straight from the cells. Empty cells plot as 0.
+ */
+export function tableToChartData(table: ParsedTable, mapping: TableMapping): ChartData {
+  const index = (name: string) => table.columns.findIndex(column => column.name === name)
+  const labelIndex = index(mapping.labelColumn)
+  return {
+    labels: table.rows.map(row => row[labelIndex]),
+    datasets: mapping.valueColumns.map(name => {
+      const i = index(name)
+      return { label: name, data: table.rows.map(row => parseNumber(row[i]) ?? 0) }
+    })
+  }
+}
+
+/**
+ * Columns with their types and the first rows, for the mapping prompt
+ */
+export function describeTable(table: ParsedTable): string {
+  const columns = table.columns.map(column => `- "${column.name}" (${column.type})`).join('\n')
+  const preview = table.rows.slice(0, PREVIEW_ROWS).map(row => row.join(' | ')).join('\n')
+  const more = table.rows.length > PREVIEW_ROWS ? `\n... ${table.rows.length - PREVIEW_ROWS} more rows` : ''
+  const source = table.name ? `${table.name}: ` : ''
+  return `${source}${table.format.toUpperCase()} table with ${table.rows.length} rows.\nColumns:\n${columns}\n\nFirst rows:\n${preview}${more}`
+}
+
+function parseJsonRecords(text: string): ParsedTable | null {
+  const match = text.match(/\[[\s\S]*\]/)
+  if (!match) return null
+
+  let records: unknown
+  try {
+    records = JSON.parse(match[0])
+  } catch {
+    return null
+  }
+  if (!Array.isArray(records) || records.length === 0 ||
+      !records.every(record => record && typeof record === 'object' && !Array.isArray(record))) {
+    return null
+  }
+
+  return tableFromRecords(records as Record<string, unknown>[], 'json')
+}
+
+function parseMarkdownTable(text: string): ParsedTable | null {
+  const lines = text.split('\n').map(line => line.trim())
+  const separator = lines.findIndex(line => /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?$/.test(line))
+  if (separator < 1 || !lines[separator - 1].includes('|')) return null
+
+  const cells = (line: string) => line.replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim())
+  const header = cells(lines[separator - 1])
+  const rows: string[][] = []
+  for (const line of lines.slice(separator + 1)) {
+    if (!line.includes('|')) break
+    rows.push(cells(line))
+  }
+  if (rows.length === 0 || rows.some(row => row.length !== header.length)) return null
+  return buildTable('markdown', header, rows)
+}
+
+/**
+ * The longest run of consecutive lines that split into the same number (at least two) of
+ * tab- or comma-separated cells. The first line is the header unless it looks like data.
+ * Without a known format, tabs anywhere mean TSV.
+ */
+function parseDelimited(text: string, knownFormat?: 'csv' | 'tsv'): ParsedTable | null {
+  const lines = text.split('\n').map(line => line.trim())
+  const format: TableFormat = knownFormat || (lines.some(line => line.includes('\t')) ? 'tsv' : 'csv')
+  const split = (line: string) => format === 'tsv' ? line.split('\t').map(cell => cell.trim()) : splitCsvLine(line)
+
+  let best: string[][] = []
+  let run: string[][] = []
+  for (const line of lines) {
+    const cells = line ? split(line) : []
+    if (cells.length >= 2 && (run.length === 0 || cells.length === run[0].length)) {
+      run.push(cells)
+    } else {
+      run = cells.length >= 2 ? [cells] : []
+    }
+    if (run.length > best.length) best = run
+  }
+
+  const [first, ...rest] = best
+  const hasHeader = first && first.every(cell => parseNumber(cell) === null)
+  const rows = hasHeader ? rest : best
+  if (rows.length < (format === 'csv' && !knownFormat ? MIN_CSV_ROWS : 1)) return null
+
+  const header = hasHeader ? first : rows[0].map((_, i) => `Column ${i + 1}`)
+  return buildTable(format, header, rows)
+}
+
+/**
+ * Split one CSV line, honouring double-quoted cells ("1,200" stays one cell)
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      cell += '"'
+      i++
+    } else if (char === '"') {
+      quoted = !quoted
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+function buildTable(format: TableFormat, header: string[], rows: string[][]): ParsedTable {
+  const names = header.map((name, i) => name || `Column ${i + 1}`)
+  return {
+    format,
+    columns: names.map((name, i) => ({ name, type: inferColumnType(name, rows.map(row => row[i] ?? '')) })),
+    rows
+  }
+}
+
+/**
+ * Number when every non-empty cell is a number, except year-like columns (a "Year" header
+ * over whole numbers) which are dates; date when every cell looks like one; otherwise string
+ */
+function inferColumnType(name: string, cells: string[]): ColumnType {
+  const filled = cells.filter(cell => cell.trim() !== '')
+  if (filled.length === 0) {
+    return 'string'
+  }
+  if (filled.every(cell => parseNumber(cell) !== null)) {
+    const wholeNumbers = filled.every(cell => /^\d{1,4}$/.test(cell.trim()))
+    return wholeNumbers && DATE_HEADER.test(name) ? 'date' : 'number'
+  }
+  return filled.every(cell => DATE_VALUE.test(cell.trim())) ? 'date' : 'string'
+}
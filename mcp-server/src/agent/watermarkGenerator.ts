@@ -2,6 +2,10 @@
 
 import { createCanvas } from '@napi-rs/canvas'
 import { OllamaClient } from './ollama.js'
+import { isCancellationError } from '../utils/cancellation.js'
+import { createLogger } from '../utils/logger.js'
+
+const logger = createLogger('WatermarkGenerator')
 
 export class WatermarkGenerator {
   private ollama: OllamaClient
@@ -55,16 +59,16 @@ export class WatermarkGenerator {
    * Generate watermark text using Ollama from the prompt
    * Uses Ollama to create a visual representation that becomes the watermark
    */
-  private async generateWatermarkTextWithOllama(prompt: string): Promise<string> {
+  private async generateWatermarkTextWithOllama(prompt: string, signal?: AbortSignal): Promise<string> {
     try {
-      console.log('[WatermarkGenerator] Generating watermark with Ollama from prompt:', prompt)
+      logger.debug('Generating watermark with Ollama', { prompt })
       
       // Create a prompt for Ollama to generate a concise, visual watermark representation
       const watermarkPrompt = `Based on this chart request: "${prompt}", generate a short watermark text (2-5 words) that visually represents the main theme or subject. 
 Make it descriptive and meaningful. Respond with ONLY the watermark text, no explanations, quotes, or markdown formatting.`
 
-      const response = await this.ollama.generate(watermarkPrompt)
-      console.log('[WatermarkGenerator] Ollama raw response:', response)
+      const response = await this.ollama.generate(watermarkPrompt, { signal })
+      logger.debug('Ollama raw response', { response })
       
       // Clean up the response - take first line and remove quotes/markdown
       let cleaned = response
@@ -80,18 +84,18 @@ Make it descriptive and meaningful. Respond with ONLY the watermark text, no exp
       cleaned = cleaned.replace(/^(the|a|an)\s+/i, '')
       
       if (cleaned.length > 0 && cleaned.length < 60) {
-        console.log('[WatermarkGenerator] Ollama generated watermark text:', cleaned)
+        logger.info('Watermark text generated', { watermark: cleaned })
         return cleaned
       }
       
       // Fallback to extracted text if Ollama response is invalid
-      console.warn('[WatermarkGenerator] Ollama response invalid, using fallback')
+      logger.warn('Ollama watermark response invalid, using fallback')
       return this.extractWatermarkText(prompt)
     } catch (error) {
-      console.error('[WatermarkGenerator] Error generating watermark with Ollama:', error)
-      if (error instanceof Error) {
-        console.error('[WatermarkGenerator] Error details:', error.message)
+      if (isCancellationError(error)) {
+        throw error
       }
+      logger.error('Error generating watermark with Ollama', { error })
       // Fallback to extracted text
       return this.extractWatermarkText(prompt)
     }
@@ -122,11 +126,11 @@ Make it descriptive and meaningful. Respond with ONLY the watermark text, no exp
 
   /**
    * Apply watermark directly to chart canvas context
-   * Uses Ollama to generate the watermark text from the prompt
+   * Uses Ollama to generate the watermark text from the prompt; aborting the signal stops that call
    */
-  async applyWatermarkToCanvas(ctx: any, chartWidth: number, chartHeight: number, watermarkPrompt: string): Promise<void> {
+  async applyWatermarkToCanvas(ctx: any, chartWidth: number, chartHeight: number, watermarkPrompt: string, signal?: AbortSignal): Promise<void> {
     // Generate watermark text using Ollama
-    const watermarkText = await this.generateWatermarkTextWithOllama(watermarkPrompt)
+    const watermarkText = await this.generateWatermarkTextWithOllama(watermarkPrompt, signal)
     await this.applyWatermarkTextToCanvas(ctx, chartWidth, chartHeight, watermarkText)
   }
 
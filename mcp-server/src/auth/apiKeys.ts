@@ -0,0 +1,87 @@
+// API key authentication - Optional; enabled when keys are configured in API_KEYS_FILE or API_KEYS
+//
+//   API_KEYS=ci:abc123,alice:def456           label:key pairs (a bare key gets a generated label)
+//   API_KEYS_FILE=./api-keys.json             [{ "label": "ci", "key": "abc123" }, ...]
+
+import { createHash, timingSafeEqual } from 'crypto'
+import { readFileSync } from 'fs'
+import { createLogger } from '../utils/logger.js'
+
+const logger = createLogger('Auth')
+
+export interface ApiKey {
+  label: string
+  key: string
+}
+
+export class ApiKeyAuth {
+  private keys: Array<{ label: string; digest: Buffer }> = []
+
+  constructor(keys: ApiKey[] = loadApiKeys()) {
+    for (const { label, key } of keys) {
+      if (key) {
+        this.keys.push({ label, digest: digest(key) })
+      }
+    }
+    if (this.keys.length > 0) {
+      logger.info('API key authentication enabled', { keys: this.keys.length })
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.keys.length > 0
+  }
+
+  /**
+   * Label of the key matching the token, or undefined if it matches none
+   */
+  authenticate(token: string | undefined): string | undefined {
+    if (!token) return undefined
+
+    // Compare fixed-length digests so timing doesn't reveal how much of a key matched
+    const candidate = digest(token)
+    return this.keys.find(k => timingSafeEqual(k.digest, candidate))?.label
+  }
+}
+
+/**
+ * Token from an `Authorization: Bearer <token>` header value
+ */
+export function parseBearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i)
+  return match ? match[1] : undefined
+}
+
+function loadApiKeys(): ApiKey[] {
+  const keys: ApiKey[] = []
+
+  if (process.env.API_KEYS_FILE) {
+    // A misconfigured key file must not silently leave the server open
+    const parsed = JSON.parse(readFileSync(process.env.API_KEYS_FILE, 'utf-8'))
+    if (!Array.isArray(parsed)) {
+      throw new Error(`API_KEYS_FILE must contain an array of { label, key } objects`)
+    }
+    for (const entry of parsed as Array<Partial<ApiKey>>) {
+      if (typeof entry.key === 'string') {
+        keys.push({ label: entry.label || `key-${keys.length + 1}`, key: entry.key })
+      }
+    }
+  }
+
+  if (process.env.API_KEYS) {
+    for (const pair of process.env.API_KEYS.split(',')) {
+      const trimmed = pair.trim()
+      if (!trimmed) continue
+      const separator = trimmed.indexOf(':')
+      keys.push(separator > 0
+        ? { label: trimmed.slice(0, separator), key: trimmed.slice(separator + 1) }
+        : { label: `key-${keys.length + 1}`, key: trimmed })
+    }
+  }
+
+  return keys
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
@@ -0,0 +1,47 @@
+// Signed image URLs - Chart image links for the `url` delivery mode that expire
+//
+//   IMAGE_URL_SECRET=...       HMAC key; give every instance behind a load balancer the same one
+//                              (default: random per process, so links stop working on restart)
+//   IMAGE_URL_TTL_MS=3600000   How long a link works (default: 1 hour)
+//
+// <img> tags can't send an Authorization header, so the link itself carries the grant:
+// only the client the chart was streamed to gets a valid one.
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+const DEFAULT_TTL_MS = process.env.IMAGE_URL_TTL_MS ? parseInt(process.env.IMAGE_URL_TTL_MS, 10) : 60 * 60 * 1000
+
+export class ImageUrlSigner {
+  private secret: string
+  private ttlMs: number
+
+  constructor(secret: string = process.env.IMAGE_URL_SECRET || randomBytes(32).toString('hex'), ttlMs: number = DEFAULT_TTL_MS) {
+    this.secret = secret
+    this.ttlMs = ttlMs
+  }
+
+  /**
+   * Query string that grants access to the chart's image until the link expires
+   */
+  sign(chartId: string, now: number = Date.now()): string {
+    const expires = now + this.ttlMs
+    return `expires=${expires}&sig=${this.signature(chartId, expires)}`
+  }
+
+  /**
+   * Milliseconds the link has left, or 0 when the signature is missing, wrong or expired
+   */
+  verify(chartId: string, expires: string | null, signature: string | null, now: number = Date.now()): number {
+    const expiresAt = Number(expires)
+    if (!signature || !Number.isSafeInteger(expiresAt) || expiresAt <= now) {
+      return 0
+    }
+    const expected = Buffer.from(this.signature(chartId, expiresAt))
+    const actual = Buffer.from(signature)
+    return actual.length === expected.length && timingSafeEqual(actual, expected) ? expiresAt - now : 0
+  }
+
+  private signature(chartId: string, expires: number): string {
+    return createHmac('sha256', this.secret).update(`${chartId}:${expires}`).digest('base64url')
+  }
+}
@@ -0,0 +1,46 @@
+// MCP protocol definitions - handshake constants, tool schemas and content blocks
+// See https://modelcontextprotocol.io/specification for the message formats
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05'
+
+export const SERVER_INFO = {
+  name: 'mcp-chart-agent',
+  version: '1.0.0'
+}
+
+export const SERVER_CAPABILITIES = {
+  tools: { listChanged: false }
+}
+
+export interface JsonSchema {
+  type?: string
+  description?: string
+  properties?: Record<string, JsonSchema>
+  items?: JsonSchema
+  required?: string[]
+  enum?: unknown[]
+  additionalProperties?: boolean
+}
+
+export interface ToolDefinition {
+  name: string
+  description: string
+  inputSchema: JsonSchema
+}
+
+export type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+
+export interface ToolCallResult {
+  content: ToolContent[]
+  isError?: boolean
+}
+
+export function textContent(text: string): ToolContent {
+  return { type: 'text', text }
+}
+
+export function imageContent(base64: string, mimeType: string = 'image/png'): ToolContent {
+  return { type: 'image', data: base64, mimeType }
+}
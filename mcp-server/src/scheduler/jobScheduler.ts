@@ -0,0 +1,182 @@
+// Job Scheduler - Bounds concurrent generation jobs (chat, chart, tool calls) so clients
+// can't flood Ollama. Jobs beyond the global concurrency wait in a FIFO queue.
+//
+//   MAX_CONCURRENT_JOBS   Jobs running at once across all clients (default 2)
+//   MAX_JOBS_PER_CLIENT   Running + queued jobs per client (default 3)
+//   MAX_QUEUE_DEPTH       Jobs waiting for a slot across all clients (default 20)
+//   MAX_JOBS_PER_MINUTE   Jobs a client may submit per minute, 0 = unlimited (default 0)
+
+import { RequestCancelledError, throwIfCancelled } from '../utils/cancellation.js'
+
+const RATE_WINDOW_MS = 60 * 1000
+
+export interface JobSchedulerOptions {
+  maxConcurrent: number
+  maxPerClient: number
+  maxQueueDepth: number
+  maxPerMinute: number
+}
+
+export type SchedulerLimit = 'client_limit' | 'queue_full' | 'rate_limit'
+
+export class SchedulerLimitError extends Error {
+  reason: SchedulerLimit
+  limit: number
+  retryAfterMs?: number
+
+  constructor(reason: SchedulerLimit, limit: number, message: string, retryAfterMs?: number) {
+    super(message)
+    this.name = 'SchedulerLimitError'
+    this.reason = reason
+    this.limit = limit
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal
+  // Called when the job has to wait, and again whenever it moves up the queue (1 = next)
+  onQueued?: (position: number) => void
+}
+
+interface QueuedJob {
+  onQueued?: (position: number) => void
+  start: () => void
+}
+
+export class JobScheduler {
+  private options: JobSchedulerOptions
+  private running = 0
+  private queue: QueuedJob[] = []
+  // Running + queued jobs per client key
+  private clientJobs: Map<string, number> = new Map()
+  // Submission times per client key within the last rate window
+  private submissions: Map<string, number[]> = new Map()
+
+  constructor(options: Partial<JobSchedulerOptions> = {}) {
+    this.options = {
+      // At least one job must be able to run, or queued jobs would wait forever
+      maxConcurrent: Math.max(1, options.maxConcurrent ?? readLimit('MAX_CONCURRENT_JOBS', 2)),
+      maxPerClient: Math.max(1, options.maxPerClient ?? readLimit('MAX_JOBS_PER_CLIENT', 3)),
+      maxQueueDepth: options.maxQueueDepth ?? readLimit('MAX_QUEUE_DEPTH', 20),
+      maxPerMinute: options.maxPerMinute ?? readLimit('MAX_JOBS_PER_MINUTE', 0)
+    }
+  }
+
+  /**
+   * Run a job once a slot is free. Rejects with SchedulerLimitError without queueing
+   * when the client or the queue is over its limit, and with RequestCancelledError
+   * when the signal aborts while the job is still waiting.
+   */
+  async schedule<T>(clientKey: string, run: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    throwIfCancelled(options.signal)
+    this.checkLimits(clientKey)
+
+    this.clientJobs.set(clientKey, (this.clientJobs.get(clientKey) || 0) + 1)
+    let started = false
+
+    try {
+      await this.acquire(options)
+      started = true
+      return await run()
+    } finally {
+      const remaining = (this.clientJobs.get(clientKey) || 1) - 1
+      if (remaining > 0) {
+        this.clientJobs.set(clientKey, remaining)
+      } else {
+        this.clientJobs.delete(clientKey)
+      }
+      if (started) {
+        this.release()
+      }
+    }
+  }
+
+  getStats() {
+    return {
+      running: this.running,
+      queued: this.queue.length,
+      ...this.options
+    }
+  }
+
+  private checkLimits(clientKey: string) {
+    const { maxPerClient, maxQueueDepth, maxPerMinute } = this.options
+
+    if ((this.clientJobs.get(clientKey) || 0) >= maxPerClient) {
+      throw new SchedulerLimitError('client_limit', maxPerClient,
+        `Too many requests in progress: at most ${maxPerClient} per client`)
+    }
+
+    const mustQueue = this.running >= this.options.maxConcurrent || this.queue.length > 0
+    if (mustQueue && this.queue.length >= maxQueueDepth) {
+      throw new SchedulerLimitError('queue_full', maxQueueDepth, 'Server is busy: the job queue is full, try again later')
+    }
+
+    if (maxPerMinute > 0) {
+      const now = Date.now()
+      const recent = (this.submissions.get(clientKey) || []).filter(time => now - time < RATE_WINDOW_MS)
+      if (recent.length >= maxPerMinute) {
+        this.submissions.set(clientKey, recent)
+        throw new SchedulerLimitError('rate_limit', maxPerMinute,
+          `Rate limit exceeded: at most ${maxPerMinute} requests per minute`, RATE_WINDOW_MS - (now - recent[0]))
+      }
+      recent.push(now)
+      this.submissions.set(clientKey, recent)
+    }
+  }
+
+  private acquire(options: ScheduleOptions): Promise<void> {
+    if (this.running < this.options.maxConcurrent && this.queue.length === 0) {
+      this.running++
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const { signal } = options
+      const job: QueuedJob = {
+        onQueued: options.onQueued,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort)
+          this.running++
+          resolve()
+        }
+      }
+      const onAbort = () => {
+        const index = this.queue.indexOf(job)
+        if (index !== -1) {
+          this.queue.splice(index, 1)
+          this.notifyPositions(index)
+        }
+        reject(new RequestCancelledError())
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(job)
+      job.onQueued?.(this.queue.length)
+    })
+  }
+
+  private release() {
+    this.running--
+    const next = this.queue.shift()
+    if (next) {
+      next.start()
+      this.notifyPositions(0)
+    }
+  }
+
+  /**
+   * Tell every job from index onwards its new queue position
+   */
+  private notifyPositions(fromIndex: number) {
+    for (let i = fromIndex; i < this.queue.length; i++) {
+      this.queue[i].onQueued?.(i + 1)
+    }
+  }
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = process.env[name] ? parseInt(process.env[name] as string) : NaN
+  return Number.isNaN(value) || value < 0 ? fallback : value
+}
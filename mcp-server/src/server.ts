@@ -1,13 +1,83 @@
-import { WebSocketServer, WebSocket } from 'ws'
+import { Server as HttpServer } from 'http'
+import { WebSocketServer } from 'ws'
 import { v4 as uuidv4 } from 'uuid'
-import { Agent } from './agent/index.js'
+import { ChartData, ChartDataError, ChartOptions, DataSource } from './agent/chartGenerator.js'
+import { Agent, ChartImageInfo, DashboardLayout } from './agent/index.js'
+import { Session, SessionManager } from './state/sessionManager.js'
+import { ChartRecord, ChartStore, FileChartStore } from './state/chartStore.js'
+import { DatasetLibrary, defaultDatasetLibrary } from './state/datasetLibrary.js'
+import { DatabaseInfo, SqliteSource, SqliteError, defaultSqliteSource } from './state/sqliteSource.js'
 import { PromptLogger } from './utils/promptLogger.js'
+import {
+  MCP_PROTOCOL_VERSION,
+  SERVER_INFO,
+  SERVER_CAPABILITIES,
+  ToolCallResult,
+  textContent
+} from './mcp/protocol.js'
+import { ToolRegistry, defaultToolRegistry } from './tools/index.js'
+import { ClientConnection, ForwardingConnection, TransportType, WebSocketConnection } from './transports/connection.js'
+import { StdioConnection, redirectConsoleToStderr, startStdioTransport } from './transports/stdio.js'
+import { HttpClient, HttpError, startHttpTransport } from './transports/http.js'
+import { ImageDelivery, IMAGE_DELIVERY_MODES, encodeImageFrame } from './transports/imageFrames.js'
+import { isCancellationError } from './utils/cancellation.js'
+import { StreamManager } from './utils/streaming.js'
+import { ApiKeyAuth, parseBearerToken } from './auth/apiKeys.js'
+import { ImageUrlSigner } from './auth/imageUrls.js'
+import { JobScheduler, SchedulerLimitError } from './scheduler/jobScheduler.js'
+import { addLogContext, createLogger, runWithLogContext } from './utils/logger.js'
+import { Gauge, metrics, registry } from './utils/metrics.js'
+
+const logger = createLogger('Server')
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 8080
+// REST + SSE API served alongside the WebSocket; HTTP_PORT=0 disables it
+const HTTP_PORT = process.env.HTTP_PORT ? parseInt(process.env.HTTP_PORT) : 8081
+// Base URL clients use to fetch images in the `url` delivery mode
+const HTTP_PUBLIC_URL = process.env.HTTP_PUBLIC_URL || `http://localhost:${HTTP_PORT}`
+// How long a shutdown waits for in-flight requests before cancelling them
+const SHUTDOWN_TIMEOUT_MS = process.env.SHUTDOWN_TIMEOUT_MS ? parseInt(process.env.SHUTDOWN_TIMEOUT_MS) : 30000
+// Time cancelled requests get to send their responses before connections are closed
+const CANCEL_GRACE_MS = 2000
+// How long requests of a dropped WebSocket keep running for the session to resume their stream
+const STREAM_RESUME_MS = process.env.STREAM_RESUME_MS ? parseInt(process.env.STREAM_RESUME_MS) : 30000
+
+// JSON-RPC error code for a request the client cancelled (same value as LSP)
+const REQUEST_CANCELLED = -32800
+// JSON-RPC error code for calls from a client that hasn't presented a valid API key
+const AUTH_REQUIRED = -32001
+// JSON-RPC error code for a job rejected by the scheduler (per-client limit, rate limit or full queue)
+const RATE_LIMITED = -32002
+// JSON-RPC error code for a job submitted while the server is draining for shutdown
+const SHUTTING_DOWN = -32003
+
+// Methods an unauthenticated client may call; connect and initialize carry the API key
+const UNAUTHENTICATED_METHODS = new Set(['connect', 'initialize', 'ping', '$/cancelRequest', 'notifications/cancelled'])
+
+// Methods that start generation jobs; refused once a shutdown has begun
+const JOB_METHODS = new Set(['chat', 'generateChart', 'tools/call'])
+
+// Methods recorded under their own name in the request metrics
+const KNOWN_METHODS = new Set([
+  ...UNAUTHENTICATED_METHODS, 'tools/list', 'tools/call', 'chat', 'generateChart', 'listTools',
+  'getChart', 'listCharts', 'deleteChart', 'getStatus', 'resumeStream', 'listDatasets', 'previewDataset',
+  'registerDatabase', 'listDatabases', 'unregisterDatabase'
+])
+
+// Transport is selected with --stdio / --transport=<type> or MCP_TRANSPORT (default: websocket)
+function resolveTransport(): TransportType {
+  if (process.argv.includes('--stdio')) {
+    return 'stdio'
+  }
+  const flag = process.argv.find(arg => arg.startsWith('--transport='))
+  const value = flag ? flag.split('=')[1] : process.env.MCP_TRANSPORT
+  return value === 'stdio' ? 'stdio' : 'websocket'
+}
 
 interface JsonRpcRequest {
   jsonrpc: '2.0'
-  id: string | number
+  // Absent for notifications, which never get a response
+  id?: string | number
   method: string
   params?: Record<string, unknown>
 }
@@ -23,80 +93,380 @@ interface JsonRpcResponse {
   }
 }
 
+interface ActiveRequest {
+  clientId: string
+  requestId: string | number
+  controller: AbortController
+  // Where the request's output goes; retargeted when its stream is resumed
+  conn: ClientConnection
+  // Set for requests that stream a response; the stream can be resumed after a reconnect
+  messageId?: string
+  // Cancels the request unless its stream is resumed in time
+  resumeTimer?: NodeJS.Timeout
+  // Owner of the charts it renders, kept when the client that started it disconnects
+  session?: Session
+  apiKeyLabel?: string
+}
+
 interface StreamChunk {
-  type: 'text' | 'image' | 'status' | 'error' | 'chartData'
+  type: 'text' | 'image' | 'status' | 'error' | 'chartData' | 'dashboard'
   content: string
   streaming: boolean
   messageId: string
+  // Position in the message's stream, passed back as afterSeq to resumeStream
+  seq?: number
+  // Set on image and chartData chunks once the chart is persisted in the chart store
+  chartId?: string
+  // Set on status chunks while the job waits for a free slot (1 = next)
+  queuePosition?: number
+  // Set on image and chartData chunks when the chart shows placeholder values because
+  // the LLM never produced a valid spec
+  sampleData?: boolean
+  // Set on image and chartData chunks: whether the values are the user's own data or illustrative
+  dataSource?: DataSource
+  // Set on image and chartData chunks that belong to a dashboard; index is the panel
+  // (absent on a composed grid image)
+  dashboard?: { id: string; index?: number }
+  // Set on the dashboard chunk sent after a dashboard's images
+  layout?: DashboardLayout
+  // Image chunks delivered outside the JSON message have an empty content and reference the image here
+  image?: {
+    id: string
+    delivery: 'binary' | 'url'
+    mimeType: string
+    byteLength?: number
+    url?: string
+  }
   chartData?: {
     labels: string[]
     datasets: Array<{ label: string; data: number[] }>
   }
 }
 
+/**
+ * A registered database as clients see it: the server's file paths stay private
+ */
+function describeDatabaseForClient(database: DatabaseInfo): { name: string; tables: DatabaseInfo['tables'] } {
+  return { name: database.name, tables: database.tables }
+}
+
 class MCPServer {
-  private wss: WebSocketServer
-  private agent: Agent
+  private wss?: WebSocketServer
+  private httpServer?: HttpServer
+  private transport: TransportType
+  private sessions: SessionManager
+  private tools: ToolRegistry
+  private chartStore: ChartStore
+  private datasets: DatasetLibrary
+  private databases: SqliteSource
   private promptLogger: PromptLogger
-  private clients: Map<string, WebSocket> = new Map()
+  private clients: Map<string, ClientConnection> = new Map()
+  private inFlight: Set<Promise<void>> = new Set()
+  private activeRequests: Map<string, ActiveRequest> = new Map()
+  // Conversation summaries being written, cancelled on shutdown
+  private compactions: Set<AbortController> = new Set()
+  private streams: StreamManager<StreamChunk> = new StreamManager()
+  private imageDelivery: Map<string, ImageDelivery> = new Map()
+  private auth: ApiKeyAuth
+  private imageUrls: ImageUrlSigner
+  // API key label per authenticated client, recorded in prompt log entries
+  private authLabels: Map<string, string> = new Map()
+  private scheduler: JobScheduler
+  private shuttingDown = false
+  private shutdownComplete?: Promise<void>
 
-  constructor() {
-    this.wss = new WebSocketServer({ port: PORT })
-    this.agent = new Agent()
+  constructor(transport: TransportType = 'websocket') {
+    this.transport = transport
+    this.tools = defaultToolRegistry
+    this.sessions = new SessionManager(this.tools)
+    this.chartStore = new FileChartStore()
+    // Shared with the agents, which chart datasets and query databases by name
+    this.datasets = defaultDatasetLibrary
+    this.databases = defaultSqliteSource
     this.promptLogger = new PromptLogger()
+    this.auth = new ApiKeyAuth()
+    this.imageUrls = new ImageUrlSigner()
+    this.scheduler = new JobScheduler()
+    this.registerGauges()
+
+    if (transport === 'stdio') {
+      this.setupStdioServer()
+    } else {
+      this.setupServer()
+    }
+  }
 
-    this.setupServer()
+  private registerGauges() {
+    registry.register(new Gauge('mcp_connected_clients', 'Connected clients, by transport', () => {
+      const counts: Record<string, number> = {}
+      for (const conn of this.clients.values()) {
+        counts[conn.transport] = (counts[conn.transport] || 0) + 1
+      }
+      return Object.entries(counts).map(([transport, value]) => ({ labels: { transport }, value }))
+    }))
+    registry.register(new Gauge('mcp_jobs', 'Generation jobs in the scheduler, by state', () => {
+      const { running, queued } = this.scheduler.getStats()
+      return [{ labels: { state: 'running' }, value: running }, { labels: { state: 'queued' }, value: queued }]
+    }))
   }
 
   private setupServer() {
-    console.log(`MCP Server starting on port ${PORT}...`)
+    logger.info('MCP Server starting', { port: PORT })
+
+    this.wss = new WebSocketServer({
+      port: PORT,
+      // A bearer token on the upgrade must be valid; without one the client can still authenticate in connect
+      verifyClient: (info, done) => {
+        const token = parseBearerToken(info.req.headers.authorization)
+        if (token && this.auth.isEnabled() && !this.auth.authenticate(token)) {
+          done(false, 401, 'Invalid API key')
+        } else {
+          done(true)
+        }
+      }
+    })
 
     this.wss.on('connection', (ws, req) => {
       const clientId = uuidv4()
-      this.clients.set(clientId, ws)
-      console.log(`Client connected: ${clientId}`)
-
-      ws.on('message', async (data) => {
-        try {
-          const message = JSON.parse(data.toString()) as JsonRpcRequest
-          await this.handleMessage(clientId, ws, message)
-        } catch (error) {
-          this.sendError(ws, null, -32700, 'Parse error')
-        }
+      const conn = new WebSocketConnection(ws)
+      this.clients.set(clientId, conn)
+      const session = this.sessions.createSession(clientId)
+      const label = this.auth.authenticate(parseBearerToken(req.headers.authorization))
+      if (label) {
+        this.authLabels.set(clientId, label)
+      }
+      logger.info('Client connected', { clientId, transport: 'websocket', apiKeyLabel: label })
+
+      ws.on('message', (data) => {
+        this.handleRawMessage(clientId, conn, data.toString())
       })
 
       ws.on('close', () => {
+        // Streaming requests keep running for a while in case the session reconnects
+        this.detachClientRequests(clientId)
         this.clients.delete(clientId)
-        console.log(`Client disconnected: ${clientId}`)
+        this.imageDelivery.delete(clientId)
+        this.authLabels.delete(clientId)
+        this.sessions.detachClient(clientId)
+        logger.info('Client disconnected', { clientId })
       })
 
       ws.on('error', (error) => {
-        console.error(`WebSocket error for client ${clientId}:`, error)
+        logger.error('WebSocket error', { clientId, error })
       })
 
       // Send connection confirmation
-      this.sendResult(ws, 'connect', { clientId, status: 'connected' })
+      this.sendResult(conn, 'connect', {
+        clientId,
+        status: 'connected',
+        sessionId: session.sessionId,
+        sessionToken: session.sessionToken,
+        resumed: false,
+        authRequired: this.auth.isEnabled(),
+        authenticated: this.isAuthenticated(clientId, conn)
+      })
     })
 
     this.wss.on('listening', () => {
-      console.log(`MCP Server listening on ws://localhost:${PORT}`)
+      logger.info(`MCP Server listening on ws://localhost:${PORT}`)
     })
+
+    if (HTTP_PORT > 0) {
+      this.setupHttpServer()
+    }
+
+    this.sessions.startExpiryTimer()
+  }
+
+  /**
+   * Each HTTP request is a short-lived client; passing a session token
+   * (X-Session-Token header or chat body) continues an existing conversation
+   */
+  private setupHttpServer() {
+    this.httpServer = startHttpTransport(HTTP_PORT, {
+      openClient: (conn, sessionToken, apiKey): HttpClient => {
+        const label = this.auth.authenticate(apiKey)
+        if (this.auth.isEnabled() && !label) {
+          throw new HttpError(401, apiKey ? 'Invalid API key' : 'Authentication required: send an Authorization: Bearer <API key> header')
+        }
+
+        const clientId = uuidv4()
+        this.clients.set(clientId, conn)
+        if (label) {
+          this.authLabels.set(clientId, label)
+        }
+        const session = (sessionToken && this.sessions.resumeSession(clientId, sessionToken)) ||
+          this.sessions.createSession(clientId)
+        return { clientId, sessionId: session.sessionId, sessionToken: session.sessionToken }
+      },
+      closeClient: (clientId, keepSession) => {
+        this.cancelClientRequests(clientId)
+        this.clients.delete(clientId)
+        this.imageDelivery.delete(clientId)
+        this.authLabels.delete(clientId)
+        if (keepSession) {
+          this.sessions.detachClient(clientId)
+        } else {
+          this.sessions.clearSession(clientId)
+        }
+      },
+      dispatch: (clientId, conn, request) =>
+        this.handleMessage(clientId, conn, { jsonrpc: '2.0', ...request }),
+      getChartImage: async (chartId, expires, signature) => {
+        const validForMs = this.imageUrls.verify(chartId, expires, signature)
+        if (!validForMs) {
+          throw new HttpError(403, 'The image link is invalid or has expired')
+        }
+        const chart = await this.chartStore.get(chartId)
+        return chart ? { png: Buffer.from(chart.imageBase64, 'base64'), validForMs } : undefined
+      },
+      getMetrics: (apiKey) => {
+        if (this.auth.isEnabled() && !(apiKey && this.auth.authenticate(apiKey))) {
+          throw new HttpError(401, 'Authentication required: pass an API key as a Bearer token')
+        }
+        return registry.render()
+      }
+    })
+  }
+
+  /**
+   * A single client talking newline-delimited JSON-RPC over stdin/stdout.
+   * No connect confirmation is sent; MCP hosts start with initialize.
+   */
+  private setupStdioServer() {
+    const clientId = uuidv4()
+    const conn = new StdioConnection()
+    this.clients.set(clientId, conn)
+    this.sessions.createSession(clientId)
+    logger.info('MCP Server running on stdio', { clientId })
+
+    startStdioTransport(
+      (line) => {
+        this.handleRawMessage(clientId, conn, line)
+      },
+      async () => {
+        // Let requests that were already read finish writing their responses
+        await this.shutdown('stdin closed')
+        this.clients.delete(clientId)
+        this.sessions.detachClient(clientId)
+        process.exit(0)
+      }
+    )
+  }
+
+  private async handleRawMessage(clientId: string, conn: ClientConnection, data: string) {
+    let message: JsonRpcRequest
+    try {
+      message = JSON.parse(data) as JsonRpcRequest
+    } catch (error) {
+      this.sendError(conn, null, -32700, 'Parse error')
+      return
+    }
+
+    try {
+      await this.handleMessage(clientId, conn, message)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Internal error'
+      logger.error('Unhandled error', { clientId, requestId: message.id, method: message.method, error })
+      if (message.id !== undefined) {
+        this.sendError(conn, message.id, -32603, errorMessage)
+      }
+    }
+  }
+
+  /**
+   * Every request is tracked in inFlight until its response is sent, so shutdown can wait for it
+   */
+  private handleMessage(clientId: string, conn: ClientConnection, request: JsonRpcRequest): Promise<void> {
+    const pending = this.processMessage(clientId, conn, request)
+    this.inFlight.add(pending)
+    return pending.finally(() => this.inFlight.delete(pending))
+  }
+
+  private async processMessage(clientId: string, conn: ClientConnection, request: JsonRpcRequest): Promise<void> {
+    if (request.id === undefined) {
+      return runWithLogContext({ clientId }, () => this.dispatchMessage(clientId, conn, request))
+    }
+
+    // Unknown methods share one label so clients can't grow the series without bound
+    const method = KNOWN_METHODS.has(request.method) ? request.method : 'unknown'
+    const startTime = Date.now()
+    metrics.requests.inc({ method })
+    try {
+      // Everything logged while handling the request carries its clientId and id
+      await runWithLogContext({ clientId, requestId: request.id }, () => this.dispatchMessage(clientId, conn, request))
+    } finally {
+      metrics.requestDuration.observe({ method }, (Date.now() - startTime) / 1000)
+    }
   }
 
-  private async handleMessage(clientId: string, ws: WebSocket, request: JsonRpcRequest) {
+  private async dispatchMessage(clientId: string, conn: ClientConnection, request: JsonRpcRequest) {
     const { id, method, params } = request
 
-    console.log(`[Server] Received message from client ${clientId}: method=${method}, id=${id}`)
+    logger.info('Received message', { method })
+    logger.debug('Message params', { params })
+
+    this.sessions.touch(clientId)
+
+    if (id === undefined) {
+      this.handleNotification(clientId, method, params)
+      return
+    }
+
+    if (!UNAUTHENTICATED_METHODS.has(method) && !this.isAuthenticated(clientId, conn)) {
+      this.sendError(conn, id, AUTH_REQUIRED, `Authentication required for ${method}: pass an API key as a Bearer token or as apiKey in connect/initialize`)
+      return
+    }
+
+    if (this.shuttingDown && JOB_METHODS.has(method)) {
+      this.sendError(conn, id, SHUTTING_DOWN, 'Server is shutting down: reconnect and try again')
+      return
+    }
+
+    // Job output can be handed to another connection by resumeStream
+    const output = JOB_METHODS.has(method) ? new ForwardingConnection(conn) : conn
 
     switch (method) {
+      case '$/cancelRequest':
+      case 'notifications/cancelled': {
+        const cancelled = this.handleCancel(clientId, method, params)
+        this.sendResult(conn, id, { cancelled })
+        break
+      }
+
+      case 'initialize':
+        this.handleInitialize(clientId, conn, id, (params || {}) as { protocolVersion?: string; apiKey?: string })
+        break
+
+      case 'tools/list':
+        this.sendResult(conn, id, { tools: this.tools.getDefinitions() })
+        break
+
+      case 'tools/call':
+        await this.handleToolCall(clientId, output, id, (params || {}) as {
+          name?: string
+          arguments?: Record<string, unknown>
+        })
+        break
+
+      case 'connect':
+        this.handleConnect(clientId, conn, id, (params || {}) as {
+          sessionToken?: string
+          imageDelivery?: ImageDelivery
+          apiKey?: string
+        })
+        break
+
+      case 'resumeStream':
+        this.handleResumeStream(clientId, conn, id, (params || {}) as { messageId?: string; afterSeq?: number })
+        break
+
       case 'chat':
-        console.log(`[Server] Handling chat request, params:`, params)
-        await this.handleChat(clientId, ws, id, params as { message: string })
+        await this.handleChat(clientId, output, id, params as { message?: unknown })
         break
 
       case 'generateChart':
-        console.log(`[Server] Handling generateChart request`)
-        await this.handleGenerateChart(clientId, ws, id, params as {
+        await this.handleGenerateChart(clientId, output, id, params as {
           type: 'data' | 'ai'
           data?: unknown
           prompt?: string
@@ -104,62 +474,492 @@ class MCPServer {
         break
 
       case 'listTools':
-        console.log(`[Server] Handling listTools request`)
-        this.sendResult(ws, id, {
-          tools: [
-            {
-              name: 'generate_data_chart',
-              description: 'Generate a chart from structured data',
-              parameters: {
-                type: 'object',
-                properties: {
-                  chartType: { type: 'string', enum: ['bar', 'line', 'pie', 'doughnut'] },
-                  data: { type: 'object' },
-                  options: { type: 'object' }
-                }
-              }
-            },
-            {
-              name: 'generate_ai_chart',
-              description: 'Generate a chart from natural language description',
-              parameters: {
-                type: 'object',
-                properties: {
-                  prompt: { type: 'string' }
-                }
-              }
-            }
-          ]
+        this.sendResult(conn, id, {
+          tools: this.tools.getAll().map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.inputSchema,
+            streaming: tool.streaming
+          }))
+        })
+        break
+
+      case 'getChart':
+        await this.handleGetChart(clientId, conn, id, (params || {}) as { chartId?: string; includeImage?: boolean })
+        break
+
+      case 'listCharts':
+        await this.handleListCharts(clientId, conn, id, (params || {}) as {
+          limit?: number
+          offset?: number
+          session?: boolean
+        })
+        break
+
+      case 'deleteChart':
+        await this.handleDeleteChart(clientId, conn, id, (params || {}) as { chartId?: string })
+        break
+
+      case 'listDatasets':
+        await this.handleListDatasets(conn, id)
+        break
+
+      case 'previewDataset':
+        await this.handlePreviewDataset(conn, id, (params || {}) as { name?: string; rows?: number })
+        break
+
+      case 'registerDatabase':
+        await this.handleRegisterDatabase(conn, id, (params || {}) as { name?: string; path?: string })
+        break
+
+      case 'listDatabases':
+        this.sendResult(conn, id, { databases: (await this.databases.list()).map(describeDatabaseForClient) })
+        break
+
+      case 'unregisterDatabase':
+        this.sendResult(conn, id, {
+          name: params?.name,
+          removed: typeof params?.name === 'string' && this.databases.unregister(params.name)
         })
         break
 
       case 'ping':
-        console.log(`[Server] Handling ping request`)
-        this.sendResult(ws, id, { pong: true, timestamp: Date.now() })
+        this.sendResult(conn, id, { pong: true, timestamp: Date.now() })
         break
 
       case 'getStatus':
-        await this.handleGetStatus(ws, id)
+        await this.handleGetStatus(clientId, conn, id)
         break
 
       default:
-        console.warn(`[Server] Unknown method: ${method}`)
-        this.sendError(ws, id, -32601, `Method not found: ${method}`)
+        logger.warn('Unknown method', { method })
+        this.sendError(conn, id, -32601, `Method not found: ${method}`)
+    }
+  }
+
+  private handleNotification(clientId: string, method: string, params?: Record<string, unknown>) {
+    if (method === 'notifications/initialized') {
+      logger.info('Client completed MCP initialization')
+    } else if (method === '$/cancelRequest' || method === 'notifications/cancelled') {
+      this.handleCancel(clientId, method, params)
+    } else {
+      logger.debug('Ignoring notification', { method })
+    }
+  }
+
+  /**
+   * Cancel one of the client's requests. `$/cancelRequest` names it with `id`,
+   * MCP's `notifications/cancelled` with `requestId`.
+   */
+  private handleCancel(clientId: string, method: string, params?: Record<string, unknown>): boolean {
+    const targetId = (method === '$/cancelRequest' ? params?.id : params?.requestId) as string | number | undefined
+    if (targetId === undefined) {
+      logger.warn('Cancellation without a request id', { method })
+      return false
+    }
+
+    const cancelled = this.cancelRequest(clientId, targetId)
+    logger.info('Cancel request', { targetId, cancelled })
+    return cancelled
+  }
+
+  /**
+   * Track a request so it can be cancelled. With a messageId its stream chunks are
+   * buffered for resumeStream; pass a ForwardingConnection so its output can follow a resume.
+   */
+  private beginRequest(clientId: string, conn: ClientConnection, requestId: string | number, messageId?: string): AbortController {
+    const controller = new AbortController()
+    const session = this.sessions.getSession(clientId)
+    const active: ActiveRequest = { clientId, requestId, controller, conn, messageId, session, apiKeyLabel: this.authLabels.get(clientId) }
+    this.activeRequests.set(`${clientId}:${requestId}`, active)
+    if (messageId) {
+      this.streams.createBuffer(messageId, session?.sessionId,
+        (chunk, seq) => this.deliverChunk(active.clientId, active.conn, { ...chunk, seq }))
+    }
+    return controller
+  }
+
+  private endRequest(clientId: string, requestId: string | number) {
+    const active = this.activeRequests.get(`${clientId}:${requestId}`)
+    if (!active) return
+    clearTimeout(active.resumeTimer)
+    if (active.messageId) {
+      this.streams.completeBuffer(active.messageId)
+    }
+    this.activeRequests.delete(`${clientId}:${requestId}`)
+  }
+
+  /**
+   * Requests stay keyed by the client that started them; a resumed one has moved to
+   * another client, which cancels it under its original request id
+   */
+  private cancelRequest(clientId: string, requestId: string | number): boolean {
+    const owned = (active?: ActiveRequest) => active?.clientId === clientId && active.requestId === requestId
+    const started = this.activeRequests.get(`${clientId}:${requestId}`)
+    const active = owned(started) ? started : [...this.activeRequests.values()].find(owned)
+    if (!active) return false
+    active.controller.abort()
+    return true
+  }
+
+  /**
+   * Stop accepting connections and new jobs, notify clients, and wait up to
+   * SHUTDOWN_TIMEOUT_MS for in-flight requests before cancelling the rest.
+   * Resolves once the prompt log is flushed; the caller exits the process.
+   */
+  shutdown(reason: string): Promise<void> {
+    if (!this.shutdownComplete) {
+      this.shuttingDown = true
+      this.shutdownComplete = this.drainAndClose(reason)
+    }
+    return this.shutdownComplete
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown
+  }
+
+  private async drainAndClose(reason: string) {
+    logger.info('Shutting down', { reason, inFlight: this.inFlight.size, timeoutMs: SHUTDOWN_TIMEOUT_MS })
+
+    this.wss?.close()
+    if (this.httpServer) {
+      this.httpServer.close()
+      this.httpServer.closeIdleConnections()
+    }
+    this.sessions.stopExpiryTimer()
+
+    for (const conn of this.clients.values()) {
+      this.sendNotification(conn, 'shutdown', { reason, drainTimeoutMs: SHUTDOWN_TIMEOUT_MS })
+    }
+    for (const controller of this.compactions) {
+      controller.abort()
+    }
+
+    if (!await this.drain(SHUTDOWN_TIMEOUT_MS)) {
+      logger.warn('Shutdown timeout reached, cancelling in-flight requests', { inFlight: this.inFlight.size })
+      for (const active of this.activeRequests.values()) {
+        active.controller.abort()
+      }
+      await this.drain(CANCEL_GRACE_MS)
+    }
+
+    for (const conn of this.clients.values()) {
+      conn.close?.()
+    }
+    await this.promptLogger.close()
+    logger.info('Shutdown complete')
+  }
+
+  /**
+   * Resolves true once every in-flight request has finished, false if timeoutMs passes first
+   */
+  private async drain(timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<false>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs)
+    })
+    // Requests can finish (and new non-job ones arrive) while waiting, so re-check until empty
+    const settled = (async () => {
+      while (this.inFlight.size > 0) {
+        await Promise.allSettled([...this.inFlight])
+      }
+      return true as const
+    })()
+
+    try {
+      return await Promise.race([settled, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * A WebSocket dropped: streaming requests get STREAM_RESUME_MS for the session to
+   * reconnect and call resumeStream before they are cancelled; the rest are cancelled now
+   */
+  private detachClientRequests(clientId: string) {
+    for (const active of this.activeRequests.values()) {
+      if (active.clientId !== clientId) continue
+      if (active.messageId && STREAM_RESUME_MS > 0) {
+        logger.info('Client disconnected mid-stream, waiting for resume', {
+          clientId,
+          requestId: active.requestId,
+          messageId: active.messageId
+        })
+        active.resumeTimer = setTimeout(() => {
+          logger.info('Stream not resumed, cancelling request', { requestId: active.requestId, messageId: active.messageId })
+          active.controller.abort()
+        }, STREAM_RESUME_MS)
+      } else {
+        active.controller.abort()
+      }
     }
   }
 
-  private async handleGetStatus(ws: WebSocket, requestId: string | number) {
+  private cancelClientRequests(clientId: string) {
+    for (const active of this.activeRequests.values()) {
+      if (active.clientId === clientId) {
+        logger.info('Cancelling request for disconnected client', { clientId, requestId: active.requestId })
+        active.controller.abort()
+      }
+    }
+  }
+
+  /**
+   * MCP handshake: we only speak one protocol version, so it is returned
+   * regardless of what the client asked for and the client decides whether to proceed
+   */
+  private handleInitialize(
+    clientId: string,
+    conn: ClientConnection,
+    requestId: string | number,
+    params: { protocolVersion?: string; apiKey?: string }
+  ) {
+    if (!this.authenticateClient(clientId, conn, requestId, params.apiKey)) {
+      return
+    }
+
+    if (params.protocolVersion && params.protocolVersion !== MCP_PROTOCOL_VERSION) {
+      logger.warn('Client requested a different protocol version', {
+        requested: params.protocolVersion,
+        offered: MCP_PROTOCOL_VERSION
+      })
+    }
+
+    this.sendResult(conn, requestId, {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: SERVER_CAPABILITIES,
+      serverInfo: SERVER_INFO
+    })
+  }
+
+  /**
+   * MCP tools/call: tool failures are reported in the result with isError so the
+   * host can show them to the model; only unknown tools are protocol errors
+   */
+  private async handleToolCall(
+    clientId: string,
+    conn: ClientConnection,
+    requestId: string | number,
+    params: { name?: string; arguments?: Record<string, unknown> }
+  ) {
+    const tool = this.tools.get(params.name)
+    if (!tool) {
+      this.sendError(conn, requestId, -32602, `Unknown tool: ${params.name}`)
+      return
+    }
+
+    const agent = this.sessions.getAgent(clientId)
+    const args = params.arguments || {}
+    const startTime = Date.now()
+    const messageId = uuidv4()
+    const controller = this.beginRequest(clientId, conn, requestId, messageId)
+    addLogContext({ messageId, tool: tool.name })
+
+    try {
+      const result = await this.runJob(clientId, conn, messageId, controller.signal, () => tool.handler(args, {
+        agent,
+        signal: controller.signal,
+        // Streaming tools send their tokens as `stream` notifications while the call runs
+        onToken: tool.streaming
+          ? (token) => this.streamChunk(conn, { type: 'text', content: token, streaming: true, messageId })
+          : undefined,
+        onStatus: (status) => this.streamChunk(conn, { type: 'status', content: status, streaming: true, messageId }),
+        saveChart: (chart) => this.recordChart(clientId, requestId, chart)
+      }))
+
+      this.promptLogger.log({
+        type: result.content.some(block => block.type === 'image') ? 'chart' : 'chat',
+        prompt: typeof args.prompt === 'string' ? args.prompt : JSON.stringify(args),
+        response: '[chart generated]',
+        latencyMs: Date.now() - startTime,
+        model: agent.getModel(),
+        promptVersion: 'chart-v1',
+        apiKeyLabel: this.authLabels.get(clientId),
+        metadata: { tool: tool.name }
+      })
+
+      this.sendResult(conn, requestId, result)
+    } catch (error) {
+      if (isCancellationError(error)) {
+        this.sendError(conn, requestId, REQUEST_CANCELLED, 'Request cancelled')
+        return
+      }
+      if (error instanceof SchedulerLimitError) {
+        this.sendRateLimited(conn, requestId, messageId, error)
+        return
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Tool execution failed'
+      logger.error('Tool failed', { tool: tool.name, error })
+      this.sendResult(conn, requestId, { content: [textContent(errorMessage)], isError: true } as ToolCallResult)
+    } finally {
+      this.endRequest(clientId, requestId)
+    }
+  }
+
+  /**
+   * Session handshake: a reconnecting client passes the token it received on its
+   * previous connection to pick up its conversation where it left off
+   */
+  private handleConnect(
+    clientId: string,
+    conn: ClientConnection,
+    requestId: string | number,
+    params: { sessionToken?: string; imageDelivery?: ImageDelivery; apiKey?: string }
+  ) {
+    if (!this.authenticateClient(clientId, conn, requestId, params.apiKey)) {
+      return
+    }
+
+    let session = params.sessionToken
+      ? this.sessions.resumeSession(clientId, params.sessionToken)
+      : undefined
+    const resumed = !!session
+
+    if (!session) {
+      session = this.sessions.getSession(clientId) || this.sessions.createSession(clientId)
+    }
+
+    if (params.imageDelivery) {
+      this.imageDelivery.set(clientId, this.negotiateImageDelivery(conn, params.imageDelivery))
+    }
+
+    this.sendResult(conn, requestId, {
+      clientId,
+      status: 'connected',
+      sessionId: session.sessionId,
+      sessionToken: session.sessionToken,
+      resumed,
+      imageDelivery: this.imageDelivery.get(clientId) || 'base64',
+      // Responses the client may have missed while it was away, for resumeStream
+      streams: resumed
+        ? this.streams.getSessionBuffers(session.sessionId).map(stream => ({
+          messageId: stream.messageId,
+          lastSeq: stream.nextSeq - 1,
+          completed: !!stream.completedAt
+        }))
+        : undefined
+    })
+  }
+
+  /**
+   * Replay the chunks of one of the session's streams after afterSeq (default: all).
+   * If the request is still running, its remaining chunks and its JSON-RPC response
+   * (under the original request id) are sent to this connection instead.
+   */
+  private handleResumeStream(
+    clientId: string,
+    conn: ClientConnection,
+    requestId: string | number,
+    params: { messageId?: string; afterSeq?: number }
+  ) {
+    const session = this.sessions.getSession(clientId)
+    const stream = params.messageId ? this.streams.getBuffer(params.messageId) : undefined
+    if (!stream || !session || stream.sessionId !== session.sessionId) {
+      this.sendError(conn, requestId, -32004, `Stream not found: ${params.messageId}`)
+      return
+    }
+
+    const afterSeq = typeof params.afterSeq === 'number' ? params.afterSeq : 0
+    const { chunks, truncated } = this.streams.getChunksAfter(stream.messageId, afterSeq)
+    logger.info('Resuming stream', { messageId: stream.messageId, afterSeq, replayed: chunks.length })
+
+    for (const { seq, chunk } of chunks) {
+      this.deliverChunk(clientId, conn, { ...chunk, seq })
+    }
+
+    // Live output moves here in the same tick as the replay, so nothing is missed or sent twice.
+    // The request now belongs to this client: it is only cancelled if this client drops too.
+    for (const active of this.activeRequests.values()) {
+      if (active.messageId === stream.messageId) {
+        clearTimeout(active.resumeTimer)
+        active.resumeTimer = undefined
+        active.clientId = clientId
+        if (active.conn instanceof ForwardingConnection) {
+          active.conn.setTarget(conn)
+        }
+      }
+    }
+
+    this.sendResult(conn, requestId, {
+      messageId: stream.messageId,
+      replayed: chunks.length,
+      truncated,
+      completed: !!stream.completedAt
+    })
+  }
+
+  /**
+   * stdio clients are trusted: the server is a subprocess of the host that launched it
+   */
+  private isAuthenticated(clientId: string, conn: ClientConnection): boolean {
+    return !this.auth.isEnabled() || conn.transport === 'stdio' || this.authLabels.has(clientId)
+  }
+
+  /**
+   * Check the API key passed to connect/initialize. Sends the error response and
+   * returns false if the client is still unauthenticated afterwards.
+   */
+  private authenticateClient(
+    clientId: string,
+    conn: ClientConnection,
+    requestId: string | number,
+    apiKey: string | undefined
+  ): boolean {
+    if (apiKey !== undefined) {
+      const label = this.auth.isEnabled() ? this.auth.authenticate(apiKey) : undefined
+      if (label) {
+        this.authLabels.set(clientId, label)
+        logger.info('Client authenticated', { apiKeyLabel: label })
+      } else if (this.auth.isEnabled()) {
+        this.sendError(conn, requestId, AUTH_REQUIRED, 'Invalid API key')
+        return false
+      }
+    }
+
+    if (!this.isAuthenticated(clientId, conn)) {
+      this.sendError(conn, requestId, AUTH_REQUIRED, 'Authentication required: pass an API key as apiKey')
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Fall back to base64 when the requested mode isn't available on this
+   * connection: binary needs a transport with binary frames, url the HTTP API
+   */
+  private negotiateImageDelivery(conn: ClientConnection, requested: ImageDelivery): ImageDelivery {
+    if (!IMAGE_DELIVERY_MODES.includes(requested)) {
+      return 'base64'
+    }
+    if (requested === 'binary' && !conn.sendBinary) {
+      return 'base64'
+    }
+    if (requested === 'url' && !this.httpServer) {
+      return 'base64'
+    }
+    return requested
+  }
+
+  private async handleGetStatus(clientId: string, conn: ClientConnection, requestId: string | number) {
     try {
       const mcpStatus = 'connected' // MCP server is always connected if we're handling this
-      const model = this.agent.getModel()
+      const agent = this.sessions.getAgent(clientId)
+      const model = agent.getModel()
       
       // Check Ollama connection
-      const ollamaStatus = await this.agent.checkOllamaConnection()
+      const ollamaStatus = await agent.checkOllamaConnection()
       
-      this.sendResult(ws, requestId, {
+      this.sendResult(conn, requestId, {
         mcpServer: {
           status: mcpStatus,
-          port: PORT
+          port: PORT,
+          httpPort: this.httpServer ? HTTP_PORT : undefined,
+          transport: this.transport,
+          authRequired: this.auth.isEnabled(),
+          shuttingDown: this.shuttingDown,
+          jobs: this.scheduler.getStats()
         },
         ollamaServer: {
           status: ollamaStatus ? 'connected' : 'disconnected',
@@ -172,90 +972,222 @@ class MCPServer {
       })
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      this.sendError(ws, requestId, -32000, errorMessage)
+      this.sendError(conn, requestId, -32000, errorMessage)
     }
   }
 
-  private async handleChat(clientId: string, ws: WebSocket, requestId: string | number, params: { message: string }) {
+  private async handleChat(clientId: string, conn: ClientConnection, requestId: string | number, params?: { message?: unknown }) {
+    const message = params?.message
+    if (typeof message !== 'string') {
+      this.sendError(conn, requestId, -32602, 'message must be a string')
+      return
+    }
+
     const messageId = uuidv4()
     const startTime = Date.now()
-
-    console.log(`[Chat] Client ${clientId} sent message: "${params.message.substring(0, 50)}..."`)
+    const controller = this.beginRequest(clientId, conn, requestId, messageId)
 
     try {
-      // Stream status
-      this.streamChunk(ws, { type: 'status', content: 'Thinking...', streaming: true, messageId })
+      const agent = this.sessions.getAgent(clientId)
+      const lastChart = this.sessions.getLastChart(clientId)
+      // Stored chart ids of dashboard panels, by panel index
+      const dashboardCharts: Map<number, string> = new Map()
+
+      addLogContext({ messageId })
+      logger.info('Chat message received', { length: message.length })
 
       // Get response from agent with streaming
-      await this.agent.chat(params.message, {
-        onToken: (token: string) => {
-          this.streamChunk(ws, { type: 'text', content: token, streaming: true, messageId })
-        },
-        onImage: (base64Image: string, chartData?: { labels: string[]; datasets: Array<{ label: string; data: number[] }> }) => {
-          console.log(`[Chat] Chart image generated, size: ${base64Image.length} chars`)
-          this.streamChunk(ws, { type: 'image', content: base64Image, streaming: false, messageId })
-          if (chartData) {
-            this.streamChunk(ws, { 
-              type: 'chartData', 
-              content: '', 
-              streaming: false, 
+      await this.runJob(clientId, conn, messageId, controller.signal, () => {
+        this.streamChunk(conn, { type: 'status', content: 'Thinking...', streaming: true, messageId })
+        return agent.chat(message, {
+          onToken: (token: string) => {
+            this.streamChunk(conn, { type: 'text', content: token, streaming: true, messageId })
+          },
+          onImage: async (base64Image: string, chartData?: ChartData, chartOptions?: ChartOptions, info?: ChartImageInfo) => {
+            logger.info('Chart image generated', { size: base64Image.length, sampleData: !!info?.sampleData })
+            const sampleData = info?.sampleData || undefined
+            const dataSource = info?.dataSource
+            const dashboard = info?.dashboard
+            // A composed grid image has no chart data of its own and is not stored
+            const chartId = chartData && chartOptions
+              ? await this.recordChart(clientId, requestId, {
+                imageBase64: base64Image,
+                chartData,
+                chartOptions,
+                prompt: message,
+                sampleData,
+                dataSource
+              })
+              : undefined
+            if (chartId && dashboard?.index !== undefined) {
+              dashboardCharts.set(dashboard.index, chartId)
+            }
+            this.streamImage(clientId, conn, {
+              type: 'image',
+              content: base64Image,
+              streaming: false,
               messageId,
-              chartData 
+              chartId,
+              sampleData,
+              dataSource,
+              dashboard
             })
-          }
-        },
-        onComplete: (fullResponse: string) => {
-          console.log(`[Chat] Response completed, length: ${fullResponse.length} chars`)
-          this.streamChunk(ws, { type: 'text', content: '', streaming: false, messageId })
-
-          // Log the prompt
-          this.promptLogger.log({
-            type: 'chat',
-            prompt: params.message,
-            response: fullResponse,
-            latencyMs: Date.now() - startTime,
-            model: this.agent.getModel(),
-            promptVersion: 'chat-v1'
-          })
-        }
+            if (chartData) {
+              this.streamChunk(conn, { 
+                type: 'chartData', 
+                content: '', 
+                streaming: false, 
+                messageId,
+                chartId,
+                chartData,
+                sampleData,
+                dataSource,
+                dashboard
+              })
+            }
+          },
+          onDashboard: (layout: DashboardLayout) => {
+            logger.info('Dashboard rendered', { dashboardId: layout.id, mode: layout.mode, charts: layout.charts.length })
+            this.streamChunk(conn, {
+              type: 'dashboard',
+              content: layout.title,
+              streaming: false,
+              messageId,
+              layout: {
+                ...layout,
+                charts: layout.charts.map(chart => ({ ...chart, chartId: dashboardCharts.get(chart.index) }))
+              }
+            })
+          },
+          onStatus: (status: string) => {
+            this.streamChunk(conn, { type: 'status', content: status, streaming: true, messageId })
+          },
+          onIntent: (classification) => {
+            // Logged for evaluating the classifier against what users actually asked
+            this.promptLogger.log({
+              type: 'intent',
+              prompt: message,
+              response: JSON.stringify({ intent: classification.intent, confidence: classification.confidence }),
+              latencyMs: classification.latencyMs,
+              model: agent.getModel(),
+              promptVersion: 'intent-v1',
+              apiKeyLabel: this.authLabels.get(clientId),
+              metadata: { source: classification.source, hasChart: !!lastChart }
+            })
+          },
+          onComplete: (fullResponse: string) => {
+            logger.info('Chat response completed', { length: fullResponse.length, latencyMs: Date.now() - startTime })
+            this.streamChunk(conn, { type: 'text', content: '', streaming: false, messageId })
+
+            // Log the prompt
+            this.promptLogger.log({
+              type: 'chat',
+              prompt: message,
+              response: fullResponse,
+              latencyMs: Date.now() - startTime,
+              model: agent.getModel(),
+              promptVersion: 'chat-v1',
+              apiKeyLabel: this.authLabels.get(clientId)
+            })
+          },
+          signal: controller.signal
+        }, lastChart ? { data: lastChart.chartData, options: lastChart.chartOptions } : undefined)
       })
 
-      this.sendResult(ws, requestId, { success: true, messageId })
+      this.sendResult(conn, requestId, { success: true, messageId })
+      this.compactConversation(clientId, agent)
     } catch (error) {
+      if (isCancellationError(error)) {
+        this.sendCancelled(conn, requestId, messageId)
+        return
+      }
+      if (error instanceof SchedulerLimitError) {
+        this.sendRateLimited(conn, requestId, messageId, error)
+        return
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      console.error(`[Chat] Error processing message:`, error)
-      this.streamChunk(ws, { type: 'error', content: errorMessage, streaming: false, messageId })
-      this.sendError(ws, requestId, -32000, errorMessage)
+      logger.error('Error processing chat message', { error })
+      this.streamChunk(conn, { type: 'error', content: errorMessage, streaming: false, messageId })
+      this.sendError(conn, requestId, -32000, errorMessage)
+    } finally {
+      this.endRequest(clientId, requestId)
     }
   }
 
   private async handleGenerateChart(
     clientId: string,
-    ws: WebSocket,
+    conn: ClientConnection,
     requestId: string | number,
     params: { type: 'data' | 'ai'; data?: unknown; prompt?: string }
   ) {
     const messageId = uuidv4()
+    addLogContext({ messageId })
     const startTime = Date.now()
+    const agent = this.sessions.getAgent(clientId)
+    const controller = this.beginRequest(clientId, conn, requestId, messageId)
 
     try {
-      this.streamChunk(ws, { type: 'status', content: 'Generating chart...', streaming: true, messageId })
+      if (!(params.type === 'data' && params.data) && !(params.type === 'ai' && params.prompt)) {
+        throw new Error('Invalid chart generation parameters')
+      }
 
-      let imageBase64: string
+      const { imageBase64, spec, sampleData, dataSource } = await this.runJob(clientId, conn, messageId, controller.signal, async () => {
+        this.streamChunk(conn, { type: 'status', content: 'Generating chart...', streaming: true, messageId })
 
-      if (params.type === 'data' && params.data) {
-        imageBase64 = await this.agent.generateDataChart(params.data)
-      } else if (params.type === 'ai' && params.prompt) {
-        imageBase64 = await this.agent.generateAIChart(params.prompt, {
-          onToken: (token: string) => {
-            this.streamChunk(ws, { type: 'text', content: token, streaming: true, messageId })
+        if (params.type === 'data') {
+          const chart = await agent.generateDataChart(params.data, controller.signal)
+          return {
+            imageBase64: chart.imageBase64,
+            spec: { data: chart.data, options: chart.options },
+            sampleData: false,
+            dataSource: undefined
           }
+        }
+
+        const chart = await agent.generateAIChart(params.prompt as string, {
+          onToken: (token: string) => {
+            this.streamChunk(conn, { type: 'text', content: token, streaming: true, messageId })
+          },
+          onStatus: (status: string) => {
+            this.streamChunk(conn, { type: 'status', content: status, streaming: true, messageId })
+          },
+          signal: controller.signal
         })
-      } else {
-        throw new Error('Invalid chart generation parameters')
-      }
+        if (chart.sampleData) {
+          this.streamChunk(conn, {
+            type: 'text',
+            content: `\n\nI couldn't produce a valid chart specification (${chart.error}). The chart shows sample data, not real values.`,
+            streaming: true,
+            messageId
+          })
+        }
+        return {
+          imageBase64: chart.imageBase64,
+          spec: { data: chart.data, options: chart.options },
+          sampleData: chart.sampleData,
+          dataSource: chart.dataSource
+        }
+      })
+
+      // Directly rendered charts can be refined with follow-up chat messages too
+      const chartId = await this.recordChart(clientId, requestId, {
+        imageBase64,
+        chartData: spec.data,
+        chartOptions: spec.options,
+        prompt: params.prompt,
+        sampleData: sampleData || undefined,
+        dataSource
+      })
 
-      this.streamChunk(ws, { type: 'image', content: imageBase64, streaming: false, messageId })
+      this.streamImage(clientId, conn, {
+        type: 'image',
+        content: imageBase64,
+        streaming: false,
+        messageId,
+        chartId,
+        sampleData: sampleData || undefined,
+        dataSource
+      })
 
       // Log the chart generation
       this.promptLogger.log({
@@ -263,50 +1195,386 @@ class MCPServer {
         prompt: params.prompt || JSON.stringify(params.data),
         response: '[chart generated]',
         latencyMs: Date.now() - startTime,
-        model: this.agent.getModel(),
-        promptVersion: 'chart-v1'
+        model: agent.getModel(),
+        promptVersion: 'chart-v1',
+        apiKeyLabel: this.authLabels.get(clientId),
+        metadata: dataSource ? { sampleData, dataSource: dataSource.kind } : undefined
       })
 
-      this.sendResult(ws, requestId, { success: true, messageId })
+      this.sendResult(conn, requestId, {
+        success: true,
+        messageId,
+        chartId,
+        // The rendered data, after any transforms
+        chartData: spec.data,
+        ...(sampleData ? { sampleData } : {}),
+        ...(dataSource ? { dataSource } : {})
+      })
     } catch (error) {
+      if (isCancellationError(error)) {
+        this.sendCancelled(conn, requestId, messageId)
+        return
+      }
+      if (error instanceof SchedulerLimitError) {
+        this.sendRateLimited(conn, requestId, messageId, error)
+        return
+      }
       const errorMessage = error instanceof Error ? error.message : 'Chart generation failed'
-      this.streamChunk(ws, { type: 'error', content: errorMessage, streaming: false, messageId })
-      this.sendError(ws, requestId, -32000, errorMessage)
+      this.streamChunk(conn, { type: 'error', content: errorMessage, streaming: false, messageId })
+      this.sendError(conn, requestId, error instanceof ChartDataError ? -32602 : -32000, errorMessage)
+    } finally {
+      this.endRequest(clientId, requestId)
     }
   }
 
-  private streamChunk(ws: WebSocket, chunk: StreamChunk) {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({
+  /**
+   * Run a generation job through the scheduler, streaming its queue position
+   * as status chunks while it waits for a slot
+   */
+  private runJob<T>(
+    clientId: string,
+    conn: ClientConnection,
+    messageId: string,
+    signal: AbortSignal,
+    job: () => Promise<T>
+  ): Promise<T> {
+    return this.scheduler.schedule(this.getClientKey(clientId), job, {
+      signal,
+      onQueued: (position) => {
+        this.streamChunk(conn, {
+          type: 'status',
+          content: `Queued (position ${position})...`,
+          streaming: true,
+          messageId,
+          queuePosition: position
+        })
+      }
+    })
+  }
+
+  /**
+   * Summarize a session's conversation once it is over budget. It runs after the response as
+   * its own scheduler job, so it counts against the job limits without holding the result.
+   * Sessions live in memory, so shutdown cancels it instead of waiting for it.
+   */
+  private compactConversation(clientId: string, agent: Agent) {
+    if (this.shuttingDown || !agent.needsCompaction()) return
+
+    const controller = new AbortController()
+    this.compactions.add(controller)
+    const job = this.scheduler.schedule(this.getClientKey(clientId), () => agent.compactHistory(controller.signal), {
+      signal: controller.signal
+    })
+      .catch(error => {
+        // The next turn tries again
+        logger.info('Compaction skipped', { reason: error instanceof Error ? error.message : String(error) })
+      })
+      .finally(() => this.compactions.delete(controller))
+    this.inFlight.add(job)
+    job.finally(() => this.inFlight.delete(job))
+  }
+
+  /**
+   * Limits follow the API key, or else the session, so reconnecting doesn't reset them
+   */
+  private getClientKey(clientId: string): string {
+    const label = this.authLabels.get(clientId)
+    if (label) {
+      return `key:${label}`
+    }
+    const session = this.sessions.getSession(clientId)
+    return session ? `session:${session.sessionId}` : `client:${clientId}`
+  }
+
+  /**
+   * Persist a rendered chart and make it the session's last chart.
+   * A store failure is logged but never fails the request; the chart just has no chartId.
+   */
+  private async recordChart(
+    clientId: string,
+    requestId: string | number,
+    chart: { imageBase64: string; chartData: ChartData; chartOptions: ChartOptions; prompt?: string; sampleData?: boolean; dataSource?: DataSource }
+  ): Promise<string | undefined> {
+    // The starting client may have dropped and been detached by now
+    const active = this.activeRequests.get(`${clientId}:${requestId}`)
+    const session = active ? active.session : this.sessions.getSession(clientId)
+    let chartId: string | undefined
+
+    try {
+      const record = await this.chartStore.save({
+        ...chart,
+        model: session?.agent.getModel(),
+        sessionId: session?.sessionId,
+        apiKeyLabel: active ? active.apiKeyLabel : this.authLabels.get(clientId)
+      })
+      chartId = record.chartId
+    } catch (error) {
+      logger.error('Failed to store chart', { error })
+    }
+
+    this.sessions.setLastChart(session, {
+      chartId,
+      chartData: chart.chartData,
+      chartOptions: chart.chartOptions,
+      imageBase64: chart.imageBase64,
+      createdAt: new Date()
+    })
+
+    return chartId
+  }
+
+  /**
+   * Which stored charts a client may see: those of its API key with authentication,
+   * otherwise those of its session
+   */
+  private chartOwner(clientId: string): { sessionId?: string; apiKeyLabel?: string } {
+    const apiKeyLabel = this.authLabels.get(clientId)
+    if (apiKeyLabel) {
+      return { apiKeyLabel }
+    }
+    // A client without a session owns nothing
+    return { sessionId: this.sessions.getSession(clientId)?.sessionId || `client:${clientId}` }
+  }
+
+  private ownsChart(clientId: string, record: ChartRecord): boolean {
+    const owner = this.chartOwner(clientId)
+    return owner.apiKeyLabel
+      ? record.apiKeyLabel === owner.apiKeyLabel
+      : record.sessionId === owner.sessionId
+  }
+
+  private async handleGetChart(
+    clientId: string,
+    conn: ClientConnection,
+    requestId: string | number,
+    params: { chartId?: string; includeImage?: boolean }
+  ) {
+    if (!params.chartId) {
+      this.sendError(conn, requestId, -32602, 'chartId is required')
+      return
+    }
+
+    // Other clients' charts are reported as missing, so their ids can't be probed
+    const chart = await this.chartStore.get(params.chartId)
+    if (!chart || !this.ownsChart(clientId, chart.record)) {
+      this.sendError(conn, requestId, -32004, `Chart not found: ${params.chartId}`)
+      return
+    }
+
+    this.sendResult(conn, requestId, {
+      chart: chart.record,
+      image: params.includeImage === false ? undefined : chart.imageBase64
+    })
+  }
+
+  private async handleListCharts(
+    clientId: string,
+    conn: ClientConnection,
+    requestId: string | number,
+    params: { limit?: number; offset?: number; session?: boolean }
+  ) {
+    try {
+      const owner = this.chartOwner(clientId)
+      const result = await this.chartStore.list({
+        limit: params.limit,
+        offset: params.offset,
+        // With an API key, session narrows the key's charts to the caller's session
+        sessionId: owner.sessionId || (params.session ? this.sessions.getSession(clientId)?.sessionId : undefined),
+        apiKeyLabel: owner.apiKeyLabel
+      })
+      this.sendResult(conn, requestId, result)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to list charts'
+      this.sendError(conn, requestId, -32000, errorMessage)
+    }
+  }
+
+  private async handleDeleteChart(clientId: string, conn: ClientConnection, requestId: string | number, params: { chartId?: string }) {
+    if (!params.chartId) {
+      this.sendError(conn, requestId, -32602, 'chartId is required')
+      return
+    }
+
+    const chart = await this.chartStore.get(params.chartId)
+    if (!chart || !this.ownsChart(clientId, chart.record)) {
+      this.sendError(conn, requestId, -32004, `Chart not found: ${params.chartId}`)
+      return
+    }
+    const deleted = await this.chartStore.delete(params.chartId)
+    this.sendResult(conn, requestId, { chartId: params.chartId, deleted })
+  }
+
+  private async handleListDatasets(conn: ClientConnection, requestId: string | number) {
+    this.sendResult(conn, requestId, { datasets: await this.datasets.list() })
+  }
+
+  private async handlePreviewDataset(conn: ClientConnection, requestId: string | number, params: { name?: string; rows?: number }) {
+    if (!params.name) {
+      this.sendError(conn, requestId, -32602, 'name is required')
+      return
+    }
+
+    const preview = await this.datasets.preview(params.name, typeof params.rows === 'number' ? params.rows : undefined)
+    if (!preview) {
+      this.sendError(conn, requestId, -32004, `Dataset not found: ${params.name}`)
+      return
+    }
+    this.sendResult(conn, requestId, preview)
+  }
+
+  private async handleRegisterDatabase(conn: ClientConnection, requestId: string | number, params: { name?: string; path?: string }) {
+    if (!params.name || !params.path) {
+      this.sendError(conn, requestId, -32602, 'name and path are required')
+      return
+    }
+
+    try {
+      const database = await this.databases.register(params.name, params.path)
+      this.sendResult(conn, requestId, { database: describeDatabaseForClient(database) })
+    } catch (error) {
+      if (error instanceof SqliteError) {
+        this.sendError(conn, requestId, -32602, error.message)
+        return
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Failed to register database'
+      this.sendError(conn, requestId, -32000, errorMessage)
+    }
+  }
+
+  private sendCancelled(conn: ClientConnection, requestId: string | number, messageId: string) {
+    logger.info('Request cancelled', { requestId })
+    this.streamChunk(conn, { type: 'status', content: 'cancelled', streaming: false, messageId })
+    this.sendError(conn, requestId, REQUEST_CANCELLED, 'Request cancelled')
+  }
+
+  private sendNotification(conn: ClientConnection, method: string, params: Record<string, unknown>) {
+    if (conn.isOpen()) {
+      conn.send({ jsonrpc: '2.0', method, params })
+    }
+  }
+
+  /**
+   * Chunks of a request started with a messageId go through its stream buffer, which
+   * sends them to the connection currently following the stream; others go to conn
+   */
+  private streamChunk(conn: ClientConnection, chunk: StreamChunk) {
+    if (!this.streams.appendChunk(chunk.messageId, chunk)) {
+      this.sendChunk(conn, chunk)
+    }
+  }
+
+  private streamImage(clientId: string, conn: ClientConnection, chunk: StreamChunk) {
+    if (!this.streams.appendChunk(chunk.messageId, chunk)) {
+      this.deliverChunk(clientId, conn, chunk)
+    }
+  }
+
+  private sendChunk(conn: ClientConnection, chunk: StreamChunk) {
+    if (conn.isOpen()) {
+      conn.send({
         jsonrpc: '2.0',
         method: 'stream',
         params: chunk
-      }))
+      })
     }
   }
 
-  private sendResult(ws: WebSocket, id: string | number | null, result: unknown) {
-    if (ws.readyState === WebSocket.OPEN) {
+  /**
+   * Send a chunk to one client, images in the delivery mode it negotiated in `connect`
+   */
+  private deliverChunk(clientId: string, conn: ClientConnection, chunk: StreamChunk) {
+    if (chunk.type !== 'image') {
+      this.sendChunk(conn, chunk)
+      return
+    }
+
+    const delivery = this.imageDelivery.get(clientId) || 'base64'
+
+    if (delivery === 'binary' && conn.sendBinary && conn.isOpen()) {
+      const imageId = uuidv4()
+      const png = Buffer.from(chunk.content, 'base64')
+      this.sendChunk(conn, {
+        ...chunk,
+        content: '',
+        image: { id: imageId, delivery: 'binary', mimeType: 'image/png', byteLength: png.length }
+      })
+      conn.sendBinary(encodeImageFrame({ imageId, mimeType: 'image/png' }, png))
+      return
+    }
+
+    // URL delivery needs the chart to be in the store; otherwise send it inline
+    if (delivery === 'url' && chunk.chartId) {
+      this.sendChunk(conn, {
+        ...chunk,
+        content: '',
+        image: {
+          id: chunk.chartId,
+          delivery: 'url',
+          mimeType: 'image/png',
+          // Signed for this client; resumed streams get a fresh link
+          url: `${HTTP_PUBLIC_URL}/charts/${chunk.chartId}/image?${this.imageUrls.sign(chunk.chartId)}`
+        }
+      })
+      return
+    }
+
+    this.sendChunk(conn, chunk)
+  }
+
+  private sendResult(conn: ClientConnection, id: string | number | null, result: unknown) {
+    if (conn.isOpen()) {
       const response: JsonRpcResponse = {
         jsonrpc: '2.0',
         id: id ?? 0,
         result
       }
-      ws.send(JSON.stringify(response))
+      conn.send(response)
     }
   }
 
-  private sendError(ws: WebSocket, id: string | number | null, code: number, message: string) {
-    if (ws.readyState === WebSocket.OPEN) {
+  private sendRateLimited(conn: ClientConnection, requestId: string | number, messageId: string, error: SchedulerLimitError) {
+    logger.warn('Request rejected by scheduler', { requestId, reason: error.reason, limit: error.limit })
+    this.streamChunk(conn, { type: 'error', content: error.message, streaming: false, messageId })
+    this.sendError(conn, requestId, RATE_LIMITED, error.message, {
+      reason: error.reason,
+      limit: error.limit,
+      retryAfterMs: error.retryAfterMs
+    })
+  }
+
+  private sendError(conn: ClientConnection, id: string | number | null, code: number, message: string, data?: unknown) {
+    metrics.requestErrors.inc({ code: String(code) })
+    if (conn.isOpen()) {
       const response: JsonRpcResponse = {
         jsonrpc: '2.0',
         id: id ?? 0,
-        error: { code, message }
+        error: data === undefined ? { code, message } : { code, message, data }
       }
-      ws.send(JSON.stringify(response))
+      conn.send(response)
     }
   }
 }
 
 // Start server
-new MCPServer()
+const transport = resolveTransport()
+if (transport === 'stdio') {
+  redirectConsoleToStderr()
+}
+const server = new MCPServer(transport)
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.on(signal, () => {
+    // A second signal skips the drain
+    if (server.isShuttingDown()) {
+      logger.warn('Forced exit', { signal })
+      process.exit(1)
+    }
+    server.shutdown(signal).then(
+      () => process.exit(0),
+      (error) => {
+        logger.error('Shutdown failed', { error })
+        process.exit(1)
+      }
+    )
+  })
+}
@@ -0,0 +1,172 @@
+// Chart Store - Persists rendered charts with their spec so they can be retrieved by chartId
+
+import { existsSync, mkdirSync } from 'fs'
+import { readFile, readdir, unlink, writeFile } from 'fs/promises'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { v4 as uuidv4 } from 'uuid'
+import { ChartData, ChartOptions, DataSource } from '../agent/chartGenerator.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const CHART_ID_PATTERN = /^[0-9a-f-]{36}$/
+
+export interface ChartRecord {
+  chartId: string
+  chartData: ChartData
+  chartOptions: ChartOptions
+  prompt?: string
+  model?: string
+  sessionId?: string
+  // Label of the API key the chart was made with; with authentication, charts belong to the key
+  apiKeyLabel?: string
+  // The LLM never produced a valid spec, so the chart shows placeholder values
+  sampleData?: boolean
+  // Whether the values are the user's own data or illustrative
+  dataSource?: DataSource
+  mimeType: string
+  byteSize: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface NewChart {
+  imageBase64: string
+  chartData: ChartData
+  chartOptions: ChartOptions
+  prompt?: string
+  model?: string
+  sessionId?: string
+  apiKeyLabel?: string
+  sampleData?: boolean
+  dataSource?: DataSource
+}
+
+export interface ListChartsOptions {
+  limit?: number
+  offset?: number
+  // Only charts with this session and/or API key label
+  sessionId?: string
+  apiKeyLabel?: string
+}
+
+export interface ChartStore {
+  save(chart: NewChart): Promise<ChartRecord>
+  get(chartId: string): Promise<{ record: ChartRecord; imageBase64: string } | undefined>
+  list(options?: ListChartsOptions): Promise<{ charts: ChartRecord[]; total: number }>
+  delete(chartId: string): Promise<boolean>
+}
+
+/**
+ * Stores each chart as <chartId>.png plus a <chartId>.json metadata file
+ */
+export class FileChartStore implements ChartStore {
+  private dir: string
+
+  constructor(dir?: string) {
+    // Default: data/charts in the project root
+    const projectRoot = join(__dirname, '..', '..', '..')
+    this.dir = dir || process.env.CHART_STORE_DIR || join(projectRoot, 'data', 'charts')
+
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true })
+    }
+  }
+
+  getDirectory(): string {
+    return this.dir
+  }
+
+  async save(chart: NewChart): Promise<ChartRecord> {
+    const png = Buffer.from(chart.imageBase64, 'base64')
+    const now = new Date().toISOString()
+    const record: ChartRecord = {
+      chartId: uuidv4(),
+      chartData: chart.chartData,
+      chartOptions: chart.chartOptions,
+      prompt: chart.prompt,
+      model: chart.model,
+      sessionId: chart.sessionId,
+      apiKeyLabel: chart.apiKeyLabel,
+      sampleData: chart.sampleData,
+      dataSource: chart.dataSource,
+      mimeType: 'image/png',
+      byteSize: png.length,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await writeFile(this.imagePath(record.chartId), png)
+    await writeFile(this.metadataPath(record.chartId), JSON.stringify(record, null, 2))
+    return record
+  }
+
+  async get(chartId: string): Promise<{ record: ChartRecord; imageBase64: string } | undefined> {
+    const record = await this.readRecord(chartId)
+    if (!record) return undefined
+
+    try {
+      const png = await readFile(this.imagePath(chartId))
+      return { record, imageBase64: png.toString('base64') }
+    } catch {
+      return undefined
+    }
+  }
+
+  async list(options: ListChartsOptions = {}): Promise<{ charts: ChartRecord[]; total: number }> {
+    const files = await readdir(this.dir)
+    const records: ChartRecord[] = []
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue
+      const record = await this.readRecord(file.slice(0, -'.json'.length))
+      if (record &&
+        (!options.sessionId || record.sessionId === options.sessionId) &&
+        (!options.apiKeyLabel || record.apiKeyLabel === options.apiKeyLabel)) {
+        records.push(record)
+      }
+    }
+
+    // Newest first
+    records.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+    const offset = Math.max(0, options.offset || 0)
+    const limit = Math.max(1, options.limit || 50)
+    return { charts: records.slice(offset, offset + limit), total: records.length }
+  }
+
+  async delete(chartId: string): Promise<boolean> {
+    if (!CHART_ID_PATTERN.test(chartId)) return false
+
+    let deleted = false
+    for (const path of [this.metadataPath(chartId), this.imagePath(chartId)]) {
+      try {
+        await unlink(path)
+        deleted = true
+      } catch {
+        // Already gone
+      }
+    }
+    return deleted
+  }
+
+  private async readRecord(chartId: string): Promise<ChartRecord | undefined> {
+    // chartIds come from clients; never let one escape the store directory
+    if (!CHART_ID_PATTERN.test(chartId)) return undefined
+
+    try {
+      return JSON.parse(await readFile(this.metadataPath(chartId), 'utf-8')) as ChartRecord
+    } catch {
+      return undefined
+    }
+  }
+
+  private imagePath(chartId: string): string {
+    return join(this.dir, `${chartId}.png`)
+  }
+
+  private metadataPath(chartId: string): string {
+    return join(this.dir, `${chartId}.json`)
+  }
+}
@@ -0,0 +1,163 @@
+// Dataset Library - Indexes the CSV, TSV and JSON files in the data directory so they can be
+// listed, previewed and charted by name. Values are read from the files, never from the model.
+//
+//   DATASET_DIR=./data/datasets   Directory of dataset files (not searched recursively)
+//   DATASET_MAX_BYTES=10485760    Larger files are skipped
+
+import { readFile, readdir, stat } from 'fs/promises'
+import { join, dirname, extname } from 'path'
+import { fileURLToPath } from 'url'
+import { ParsedTable, TableColumn, TableFormat, parseTableFile } from '../agent/tableParser.js'
+import { createLogger } from '../utils/logger.js'
+
+const logger = createLogger('DatasetLibrary')
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const MAX_BYTES = process.env.DATASET_MAX_BYTES ? parseInt(process.env.DATASET_MAX_BYTES, 10) : 10 * 1024 * 1024
+const DEFAULT_PREVIEW_ROWS = 10
+
+const FORMATS: Record<string, TableFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'tsv',
+  '.tab': 'tsv',
+  '.json': 'json'
+}
+
+export interface DatasetInfo {
+  // File name, which is also the dataset's id
+  name: string
+  format: TableFormat
+  columns: TableColumn[]
+  rowCount: number
+  byteSize: number
+  modifiedAt: string
+}
+
+interface IndexEntry {
+  info: DatasetInfo
+  table: ParsedTable
+  mtimeMs: number
+}
+
+export class DatasetLibrary {
+  private dir: string
+  // Parsed files, re-read when their modification time or size changes
+  private index: Map<string, IndexEntry> = new Map()
+
+  constructor(dir?: string) {
+    // Default: data/datasets in the project root
+    const projectRoot = join(__dirname, '..', '..', '..')
+    this.dir = dir || process.env.DATASET_DIR || join(projectRoot, 'data', 'datasets')
+  }
+
+  getDirectory(): string {
+    return this.dir
+  }
+
+  /**
+   * Every readable dataset, sorted by name. A missing directory is an empty library.
+   */
+  async list(): Promise<DatasetInfo[]> {
+    let files: string[]
+    try {
+      files = await readdir(this.dir)
+    } catch {
+      return []
+    }
+
+    const names = files.filter(file => FORMATS[extname(file).toLowerCase()]).sort()
+    for (const name of this.index.keys()) {
+      if (!names.includes(name)) this.index.delete(name)
+    }
+
+    const datasets: DatasetInfo[] = []
+    for (const name of names) {
+      const entry = await this.load(name)
+      if (entry) datasets.push(entry.info)
+    }
+    return datasets
+  }
+
+  /**
+   * A dataset's parsed table, or undefined when there is no such readable file
+   */
+  async get(name: string): Promise<{ info: DatasetInfo; table: ParsedTable } | undefined> {
+    if (!this.isValidName(name)) return undefined
+    const entry = await this.load(name)
+    return entry && { info: entry.info, table: entry.table }
+  }
+
+  async preview(name: string, rows: number = DEFAULT_PREVIEW_ROWS): Promise<{ dataset: DatasetInfo; rows: string[][] } | undefined> {
+    const dataset = await this.get(name)
+    return dataset && { dataset: dataset.info, rows: dataset.table.rows.slice(0, Math.max(0, rows)) }
+  }
+
+  /**
+   * The dataset a message refers to: its file name ("signups.csv"), or its name without
+   * the extension when the message also says "dataset" or "file"
+   */
+  async findMentioned(text: string): Promise<string | undefined> {
+    const lower = text.toLowerCase()
+    const datasets = await this.list()
+    const byFileName = datasets.find(dataset => lower.includes(dataset.name.toLowerCase()))
+    if (byFileName || !/\b(dataset|data set|file)s?\b/.test(lower)) {
+      return byFileName?.name
+    }
+    return datasets.find(dataset => {
+      const base = dataset.name.slice(0, -extname(dataset.name).length).toLowerCase()
+      return new RegExp(`\\b${base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower)
+    })?.name
+  }
+
+  private async load(name: string): Promise<IndexEntry | undefined> {
+    const path = join(this.dir, name)
+    try {
+      const stats = await stat(path)
+      const cached = this.index.get(name)
+      if (cached && cached.mtimeMs === stats.mtimeMs && cached.info.byteSize === stats.size) {
+        return cached
+      }
+      if (!stats.isFile() || stats.size > MAX_BYTES) {
+        logger.warn('Skipping dataset file', { name, byteSize: stats.size, maxBytes: MAX_BYTES })
+        return undefined
+      }
+
+      const format = FORMATS[extname(name).toLowerCase()]
+      const table = parseTableFile(await readFile(path, 'utf-8'), format)
+      if (!table) {
+        logger.warn('No table found in dataset file', { name })
+        this.index.delete(name)
+        return undefined
+      }
+
+      const entry: IndexEntry = {
+        info: {
+          name,
+          format,
+          columns: table.columns,
+          rowCount: table.rows.length,
+          byteSize: stats.size,
+          modifiedAt: stats.mtime.toISOString()
+        },
+        table: { ...table, name },
+        mtimeMs: stats.mtimeMs
+      }
+      this.index.set(name, entry)
+      logger.info('Indexed dataset', { name, format, columns: table.columns.length, rows: table.rows.length })
+      return entry
+    } catch (error) {
+      logger.warn('Failed to read dataset file', { name, error })
+      this.index.delete(name)
+      return undefined
+    }
+  }
+
+  // Plain file names only, so requests can't reach outside the data directory
+  private isValidName(name: string): boolean {
+    return !!name && !/[/\\]/.test(name) && name !== '.' && name !== '..' && !!FORMATS[extname(name).toLowerCase()]
+  }
+}
+
+export const defaultDatasetLibrary = new DatasetLibrary()
@@ -0,0 +1,209 @@
+// Session Manager - Per-client Agent instances with conversation and chart state
+
+import { v4 as uuidv4 } from 'uuid'
+import { Agent } from '../agent/index.js'
+import { ChartData, ChartOptions } from '../agent/chartGenerator.js'
+import { ToolRegistry, defaultToolRegistry } from '../tools/index.js'
+import { createLogger } from '../utils/logger.js'
+
+const logger = createLogger('SessionManager')
+
+const DEFAULT_SESSION_TTL_MS = process.env.SESSION_TTL_MS
+  ? parseInt(process.env.SESSION_TTL_MS)
+  : 30 * 60 * 1000 // 30 minutes of inactivity
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+export interface ChartState {
+  chartId?: string
+  chartData: ChartData
+  chartOptions: ChartOptions
+  imageBase64: string
+  createdAt: Date
+}
+
+export interface Session {
+  sessionId: string
+  // Secret handed to the client so it can resume this session after reconnecting
+  sessionToken: string
+  // Currently attached client, undefined while the client is disconnected
+  clientId?: string
+  agent: Agent
+  lastChart?: ChartState
+  createdAt: Date
+  lastActivity: Date
+}
+
+export class SessionManager {
+  private sessions: Map<string, Session> = new Map()
+  private sessionsByClient: Map<string, string> = new Map()
+  private sessionsByToken: Map<string, string> = new Map()
+  private tools: ToolRegistry
+  private ttlMs: number
+  private sweepTimer: NodeJS.Timeout | null = null
+
+  constructor(tools: ToolRegistry = defaultToolRegistry, ttlMs: number = DEFAULT_SESSION_TTL_MS) {
+    this.tools = tools
+    this.ttlMs = ttlMs
+  }
+
+  /**
+   * Create a fresh session bound to the given client
+   */
+  createSession(clientId: string): Session {
+    const now = new Date()
+    const session: Session = {
+      sessionId: uuidv4(),
+      sessionToken: uuidv4(),
+      clientId,
+      agent: new Agent(this.tools),
+      createdAt: now,
+      lastActivity: now
+    }
+
+    this.sessions.set(session.sessionId, session)
+    this.sessionsByToken.set(session.sessionToken, session.sessionId)
+    this.attach(clientId, session)
+
+    logger.info('Created session', { sessionId: session.sessionId, clientId })
+    return session
+  }
+
+  /**
+   * Re-attach a client to an existing session identified by its token.
+   * The session the client was previously attached to is discarded.
+   * Returns undefined if the token is unknown or the session has expired.
+   */
+  resumeSession(clientId: string, sessionToken: string): Session | undefined {
+    const sessionId = this.sessionsByToken.get(sessionToken)
+    const session = sessionId ? this.sessions.get(sessionId) : undefined
+    if (!session || this.isExpired(session)) {
+      return undefined
+    }
+
+    const currentSessionId = this.sessionsByClient.get(clientId)
+    if (currentSessionId && currentSessionId !== session.sessionId) {
+      this.deleteSession(currentSessionId)
+    }
+
+    // Detach any other socket still holding the session
+    if (session.clientId && session.clientId !== clientId) {
+      this.sessionsByClient.delete(session.clientId)
+    }
+
+    this.attach(clientId, session)
+    logger.info('Client resumed session', { sessionId: session.sessionId, clientId })
+    return session
+  }
+
+  getSession(clientId: string): Session | undefined {
+    const sessionId = this.sessionsByClient.get(clientId)
+    return sessionId ? this.sessions.get(sessionId) : undefined
+  }
+
+  getAgent(clientId: string): Agent {
+    const session = this.getSession(clientId) || this.createSession(clientId)
+    return session.agent
+  }
+
+  getLastChart(clientId: string): ChartState | undefined {
+    return this.getSession(clientId)?.lastChart
+  }
+
+  /**
+   * Takes the session rather than a client: a request's client may have disconnected by
+   * the time its chart is rendered
+   */
+  setLastChart(session: Session | undefined, chart: ChartState) {
+    if (session) {
+      session.lastChart = chart
+    }
+  }
+
+  /**
+   * Mark the client's session as active, postponing its expiry
+   */
+  touch(clientId: string) {
+    const session = this.getSession(clientId)
+    if (session) {
+      session.lastActivity = new Date()
+    }
+  }
+
+  /**
+   * Detach a disconnected client. The session is kept until it expires so the
+   * client can resume it with its session token.
+   */
+  detachClient(clientId: string) {
+    const session = this.getSession(clientId)
+    this.sessionsByClient.delete(clientId)
+    if (session && session.clientId === clientId) {
+      session.clientId = undefined
+      session.lastActivity = new Date()
+    }
+  }
+
+  clearSession(clientId: string) {
+    const sessionId = this.sessionsByClient.get(clientId)
+    if (sessionId) {
+      this.deleteSession(sessionId)
+    }
+  }
+
+  /**
+   * Remove detached sessions that have been idle for longer than the TTL
+   */
+  pruneExpired(): number {
+    let removed = 0
+    for (const session of this.sessions.values()) {
+      if (this.isExpired(session)) {
+        this.deleteSession(session.sessionId)
+        removed++
+      }
+    }
+    if (removed > 0) {
+      logger.info('Expired idle sessions', { removed })
+    }
+    return removed
+  }
+
+  startExpiryTimer(intervalMs: number = SWEEP_INTERVAL_MS) {
+    if (this.sweepTimer) return
+    this.sweepTimer = setInterval(() => this.pruneExpired(), intervalMs)
+    // Don't keep the process alive just to expire sessions
+    this.sweepTimer.unref()
+  }
+
+  stopExpiryTimer() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = null
+    }
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size
+  }
+
+  private attach(clientId: string, session: Session) {
+    session.clientId = clientId
+    session.lastActivity = new Date()
+    this.sessionsByClient.set(clientId, session.sessionId)
+  }
+
+  private isExpired(session: Session): boolean {
+    // Sessions with a connected client never expire
+    return !session.clientId && Date.now() - session.lastActivity.getTime() > this.ttlMs
+  }
+
+  private deleteSession(sessionId: string) {
+    const session = this.sessions.get(sessionId)
+    if (!session) return
+
+    this.sessions.delete(sessionId)
+    this.sessionsByToken.delete(session.sessionToken)
+    if (session.clientId && this.sessionsByClient.get(session.clientId) === sessionId) {
+      this.sessionsByClient.delete(session.clientId)
+    }
+  }
+}
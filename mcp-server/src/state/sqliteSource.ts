@@ -0,0 +1,293 @@
+// SQLite Source - Registered SQLite database files the agent can chart with read-only SELECT
+// queries. Queries run in the sqlite3 command-line shell in read-only safe mode, with a row
+// limit and a timeout, and their result sets become tables for the chart pipeline.
+//
+//   SQLITE_BIN=sqlite3            sqlite3 shell (3.37 or later, for -safe)
+//   SQLITE_DIR=./data/databases   Files registered over RPC must be inside this directory
+//   SQLITE_DATABASES=sales=/srv/sales.db,...   Databases registered at startup, from anywhere
+//   SQL_ROW_LIMIT=1000            Rows read from a result set; the rest is reported as truncated
+//   SQL_TIMEOUT_MS=5000           Queries running longer are killed
+
+import { spawn } from 'child_process'
+import { existsSync } from 'fs'
+import { open } from 'fs/promises'
+import { join, dirname, isAbsolute, relative, resolve } from 'path'
+import { fileURLToPath } from 'url'
+import { ParsedTable, tableFromRecords } from '../agent/tableParser.js'
+import { RequestCancelledError } from '../utils/cancellation.js'
+import { createLogger } from '../utils/logger.js'
+import { metrics } from '../utils/metrics.js'
+
+const logger = createLogger('SqliteSource')
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const SQLITE_BIN = process.env.SQLITE_BIN || 'sqlite3'
+const ROW_LIMIT = process.env.SQL_ROW_LIMIT ? parseInt(process.env.SQL_ROW_LIMIT, 10) : 1000
+const TIMEOUT_MS = process.env.SQL_TIMEOUT_MS ? parseInt(process.env.SQL_TIMEOUT_MS, 10) : 5000
+// Output above this is cut off with the process, whatever the row limit
+const MAX_OUTPUT_BYTES = 20 * 1024 * 1024
+const SQLITE_HEADER = 'SQLite format 3\0'
+const NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+// String literals, quoted identifiers and comments, which can contain anything
+const SQL_TOKENS = /'(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\//g
+
+export interface DatabaseTable {
+  name: string
+  columns: Array<{ name: string; type: string }>
+}
+
+export interface DatabaseInfo {
+  name: string
+  path: string
+  tables: DatabaseTable[]
+}
+
+export interface QueryResult {
+  table: ParsedTable
+  // More rows matched than SQL_ROW_LIMIT
+  truncated: boolean
+  durationMs: number
+}
+
+/**
+ * A query or registration that was rejected, failed or timed out; the message can go back to the model or client
+ */
+export class SqliteError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SqliteError'
+  }
+}
+
+/**
+ * The SQL as the single SELECT that is run: comments and a trailing semicolon removed.
+ * Writes can't get through anyway: the statement runs as a subquery, in -readonly -safe mode.
+ */
+export function normalizeSelect(sql: string): { statement: string } | { error: string } {
+  const statement = sql
+    .replace(SQL_TOKENS, token => token.startsWith('--') || token.startsWith('/*') ? ' ' : token)
+    .trim()
+    .replace(/;\s*$/, '')
+    .trim()
+  // Literals can contain anything
+  const code = statement.replace(SQL_TOKENS, "''")
+
+  if (!code) {
+    return { error: 'The query is empty' }
+  }
+  if (code.includes(';')) {
+    return { error: 'Only a single statement is allowed' }
+  }
+  if (!/^(select|with)\b/i.test(code)) {
+    return { error: 'Only SELECT queries are allowed' }
+  }
+  if (code.split('\n').some(line => line.trim().startsWith('.'))) {
+    return { error: 'Shell commands are not allowed' }
+  }
+  return { statement }
+}
+
+/**
+ * Tables and their columns, for the query prompt
+ */
+export function describeDatabase(database: DatabaseInfo): string {
+  const tables = database.tables.map(table =>
+    `- ${table.name}(${table.columns.map(column => `${column.name} ${column.type || 'ANY'}`.trim()).join(', ')})`)
+  return `SQLite database "${database.name}" with tables:\n${tables.join('\n')}`
+}
+
+export class SqliteSource {
+  private dir: string
+  private databases: Map<string, DatabaseInfo> = new Map()
+  private ready: Promise<void>
+
+  constructor(dir?: string) {
+    // Default: data/databases in the project root
+    const projectRoot = join(__dirname, '..', '..', '..')
+    this.dir = dir || process.env.SQLITE_DIR || join(projectRoot, 'data', 'databases')
+    this.ready = this.registerConfigured(process.env.SQLITE_DATABASES)
+  }
+
+  getDirectory(): string {
+    return this.dir
+  }
+
+  /**
+   * Register a database file under a name, reading its schema. Paths from clients must be
+   * inside SQLITE_DIR (relative paths are resolved there); trusted callers may pass any path.
+   */
+  async register(name: string, path: string, trusted: boolean = false): Promise<DatabaseInfo> {
+    if (!NAME_PATTERN.test(name)) {
+      throw new SqliteError('name must be 1-64 letters, digits, "-" or "_"')
+    }
+    const fullPath = resolve(this.dir, path)
+    const inside = relative(this.dir, fullPath)
+    if (!trusted && (inside.startsWith('..') || isAbsolute(inside))) {
+      throw new SqliteError(`path must be inside the database directory ${this.dir}`)
+    }
+    if (!existsSync(fullPath) || !(await this.isSqliteFile(fullPath))) {
+      throw new SqliteError(`Not a SQLite database: ${path}`)
+    }
+
+    const rows = await this.execute(fullPath, `SELECT m.name AS tableName, p.name AS columnName, p.type AS columnType
+      FROM sqlite_master m JOIN pragma_table_info(m.name) p
+      WHERE m.type IN ('table', 'view') AND m.name NOT LIKE 'sqlite_%'
+      ORDER BY m.name, p.cid`)
+    const tables: DatabaseTable[] = []
+    for (const row of rows) {
+      let table = tables.find(t => t.name === row.tableName)
+      if (!table) {
+        table = { name: String(row.tableName), columns: [] }
+        tables.push(table)
+      }
+      table.columns.push({ name: String(row.columnName), type: String(row.columnType ?? '') })
+    }
+
+    const database: DatabaseInfo = { name, path: fullPath, tables }
+    this.databases.set(name, database)
+    logger.info('Registered database', { name, path: fullPath, tables: tables.length })
+    return database
+  }
+
+  unregister(name: string): boolean {
+    return this.databases.delete(name)
+  }
+
+  async list(): Promise<DatabaseInfo[]> {
+    await this.ready
+    return [...this.databases.values()]
+  }
+
+  async get(name: string): Promise<DatabaseInfo | undefined> {
+    await this.ready
+    return this.databases.get(name)
+  }
+
+  /**
+   * The database a message refers to: by its registered name, or by one of its tables
+   */
+  async findMentioned(text: string): Promise<DatabaseInfo | undefined> {
+    const lower = text.toLowerCase()
+    const mentions = (word: string) => word.length >= 3 &&
+      new RegExp(`\\b${word.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower)
+    const databases = await this.list()
+    return databases.find(database => mentions(database.name)) ||
+      databases.find(database => database.tables.some(table => mentions(table.name)))
+  }
+
+  /**
+   * Run a read-only SELECT. Reads at most SQL_ROW_LIMIT rows and gives up after SQL_TIMEOUT_MS.
+   */
+  async query(name: string, sql: string, signal?: AbortSignal): Promise<QueryResult> {
+    const database = await this.get(name)
+    if (!database) {
+      throw new SqliteError(`No database named "${name}"`)
+    }
+    const normalized = normalizeSelect(sql)
+    if ('error' in normalized) {
+      metrics.sqlQueries.inc({ outcome: 'rejected' })
+      throw new SqliteError(normalized.error)
+    }
+
+    const startTime = Date.now()
+    try {
+      const records = await this.execute(database.path, `SELECT * FROM (\n${normalized.statement}\n) LIMIT ${ROW_LIMIT + 1}`, signal)
+      const truncated = records.length > ROW_LIMIT
+      const table = { ...tableFromRecords(records.slice(0, ROW_LIMIT), 'sql'), name: database.name }
+      metrics.sqlQueries.inc({ outcome: 'ok' })
+      logger.info('Query finished', { database: name, rows: table.rows.length, truncated, durationMs: Date.now() - startTime })
+      return { table, truncated, durationMs: Date.now() - startTime }
+    } catch (error) {
+      if (error instanceof SqliteError) {
+        metrics.sqlQueries.inc({ outcome: error.message.startsWith('Query timed out') ? 'timeout' : 'error' })
+      }
+      throw error
+    }
+  }
+
+  private async registerConfigured(config?: string) {
+    for (const entry of (config || '').split(',').map(item => item.trim()).filter(Boolean)) {
+      const [name, ...path] = entry.split('=')
+      try {
+        await this.register(name.trim(), path.join('=').trim(), true)
+      } catch (error) {
+        logger.warn('Failed to register configured database', { entry, error })
+      }
+    }
+  }
+
+  private async isSqliteFile(path: string): Promise<boolean> {
+    const file = await open(path, 'r')
+    try {
+      const header = Buffer.alloc(SQLITE_HEADER.length)
+      await file.read(header, 0, header.length, 0)
+      return header.toString('latin1') === SQLITE_HEADER
+    } finally {
+      await file.close()
+    }
+  }
+
+  /**
+   * Run SQL in the sqlite3 shell: read-only, safe mode (no ATTACH, extensions or shell
+   * commands), stop at the first error, rows as JSON
+   */
+  private execute(path: string, sql: string, signal?: AbortSignal): Promise<Record<string, unknown>[]> {
+    return new Promise((resolvePromise, reject) => {
+      const child = spawn(SQLITE_BIN, ['-readonly', '-safe', '-bail', '-json', path], { stdio: ['pipe', 'pipe', 'pipe'] })
+      const stdout: Buffer[] = []
+      let stdoutBytes = 0
+      let stderr = ''
+      let settled = false
+
+      const finish = (error: Error | null, records?: Record<string, unknown>[]) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        if (error) {
+          child.kill('SIGKILL')
+          reject(error)
+        } else {
+          resolvePromise(records || [])
+        }
+      }
+      const onAbort = () => finish(new RequestCancelledError())
+      const timer = setTimeout(() => finish(new SqliteError(`Query timed out after ${TIMEOUT_MS} ms`)), TIMEOUT_MS)
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        stdoutBytes += chunk.length
+        if (stdoutBytes > MAX_OUTPUT_BYTES) {
+          finish(new SqliteError('The result is too large; select fewer or aggregated rows'))
+        } else {
+          stdout.push(chunk)
+        }
+      })
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString()
+      })
+      child.on('error', error => finish(new SqliteError(`Could not run ${SQLITE_BIN}: ${error.message}`)))
+      child.on('close', code => {
+        if (code !== 0) {
+          // The first line has the message; the rest quotes the wrapped statement
+          const message = stderr.trim().split('\n')[0].replace(/^(Parse error|Runtime error)[^:]*:\s*/i, '')
+          finish(new SqliteError(message || `${SQLITE_BIN} exited with code ${code}`))
+          return
+        }
+        const output = Buffer.concat(stdout).toString('utf-8').trim()
+        try {
+          finish(null, output ? JSON.parse(output) : [])
+        } catch {
+          finish(new SqliteError('Could not read the query result'))
+        }
+      })
+
+      child.stdin.on('error', () => { /* reported by close */ })
+      child.stdin.end(sql)
+    })
+  }
+}
+
+export const defaultSqliteSource = new SqliteSource()
@@ -0,0 +1,122 @@
+// Chart tools - Render charts from structured data or from a natural language description
+
+import { ChartOptions } from '../agent/chartGenerator.js'
+import { TRANSFORMS_SCHEMA } from '../agent/dataTransforms.js'
+import { JsonSchema, imageContent, textContent } from '../mcp/protocol.js'
+import { Tool } from './registry.js'
+
+const CHART_TYPES: ChartOptions['type'][] = ['bar', 'line', 'pie', 'doughnut']
+
+const CHART_TYPE_SCHEMA: JsonSchema = {
+  type: 'string',
+  enum: CHART_TYPES,
+  description: 'Chart type'
+}
+
+const CHART_DATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'Chart labels and datasets; every dataset has one value per label',
+  properties: {
+    labels: { type: 'array', items: { type: 'string' } },
+    datasets: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          data: { type: 'array', items: { type: 'number' } },
+          backgroundColor: { type: 'string' },
+          borderColor: { type: 'string' }
+        },
+        required: ['label', 'data']
+      }
+    }
+  },
+  required: ['labels', 'datasets']
+}
+
+export const generateDataChartTool: Tool = {
+  name: 'generate_data_chart',
+  description: 'Generate a chart from structured data',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      chartType: CHART_TYPE_SCHEMA,
+      data: CHART_DATA_SCHEMA,
+      options: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          backgroundColor: { type: 'string' }
+        }
+      },
+      transforms: TRANSFORMS_SCHEMA
+    },
+    required: ['chartType', 'data']
+  },
+  streaming: false,
+
+  async handler(args, { agent, signal, saveChart }) {
+    const chartType = CHART_TYPES.find(type => type === args.chartType)
+    if (!chartType) {
+      throw new Error(`Invalid chartType: ${String(args.chartType)}`)
+    }
+
+    // Data and options are validated by generateDataChart; only what passed is stored and reported
+    const options = typeof args.options === 'object' && args.options !== null ? args.options : {}
+    const chart = await agent.generateDataChart({ data: args.data, options: { ...options, type: chartType }, transforms: args.transforms }, signal)
+    const chartId = await saveChart({ imageBase64: chart.imageBase64, chartData: chart.data, chartOptions: chart.options })
+
+    const title = chart.options.title ? ` "${chart.options.title}"` : ''
+    const stored = chartId ? ` (chartId: ${chartId})` : ''
+    return {
+      content: [
+        textContent(`Rendered ${chart.options.type} chart${title} with ${chart.data.labels.length} labels and ${chart.data.datasets.length} dataset(s)${stored}`),
+        imageContent(chart.imageBase64)
+      ]
+    }
+  }
+}
+
+export const generateAIChartTool: Tool = {
+  name: 'generate_ai_chart',
+  description: 'Generate a chart from natural language description',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      prompt: { type: 'string', description: 'Description of the chart to generate' }
+    },
+    required: ['prompt']
+  },
+  streaming: true,
+
+  async handler(args, { agent, signal, onToken, onStatus, saveChart }) {
+    const prompt = args.prompt
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      throw new Error('prompt is required')
+    }
+
+    const chart = await agent.generateAIChart(prompt, { signal, onToken, onStatus })
+    const chartId = await saveChart({
+      imageBase64: chart.imageBase64,
+      chartData: chart.data,
+      chartOptions: chart.options,
+      prompt,
+      sampleData: chart.sampleData,
+      dataSource: chart.dataSource
+    })
+
+    const stored = chartId ? ` (chartId: ${chartId})` : ''
+    const summary = chart.sampleData
+      ? `Could not generate a valid chart for: ${prompt} (${chart.error}). This chart shows SAMPLE DATA, not real values${stored}`
+      : `Generated chart for: ${prompt}${stored}. Data: ${chart.dataSource.kind === 'user' ? 'values the user provided' : 'illustrative sample values'}`
+    return {
+      content: [
+        textContent(summary),
+        imageContent(chart.imageBase64)
+      ]
+    }
+  }
+}
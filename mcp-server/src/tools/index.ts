@@ -0,0 +1,15 @@
+// Built-in tools. New tools are added as modules and registered here.
+
+import { ToolRegistry } from './registry.js'
+import { generateAIChartTool, generateDataChartTool } from './chartTools.js'
+
+export function createToolRegistry(): ToolRegistry {
+  return new ToolRegistry()
+    .register(generateDataChartTool)
+    .register(generateAIChartTool)
+}
+
+export const defaultToolRegistry = createToolRegistry()
+
+export { ToolRegistry } from './registry.js'
+export type { Tool, ToolContext, RenderedChart } from './registry.js'
@@ -0,0 +1,83 @@
+// Tool Registry - The tools the server exposes over tools/list, tools/call and listTools,
+// and that can claim a chat message classified as chat (matchMessage). The functions the model
+// calls during a chat turn are the agent tools in agent/agentTools.ts.
+
+import type { Agent } from '../agent/index.js'
+import type { ChartData, ChartOptions, DataSource } from '../agent/chartGenerator.js'
+import { JsonSchema, ToolCallResult, ToolDefinition } from '../mcp/protocol.js'
+
+export interface RenderedChart {
+  imageBase64: string
+  chartData: ChartData
+  chartOptions: ChartOptions
+  prompt?: string
+  sampleData?: boolean
+  dataSource?: DataSource
+}
+
+export interface ToolContext {
+  agent: Agent
+  signal?: AbortSignal
+  // Only provided to streaming tools
+  onToken?: (token: string) => void
+  // Progress while no tokens are streamed, e.g. chart repair attempts
+  onStatus?: (status: string) => void
+  // Persist a rendered chart; resolves to its chartId when it was stored
+  saveChart(chart: RenderedChart): Promise<string | undefined>
+}
+
+export interface Tool {
+  name: string
+  description: string
+  inputSchema: JsonSchema
+  // Streaming tools emit LLM tokens through ToolContext.onToken while they run
+  streaming: boolean
+  // Throw for invalid arguments or failures; the caller reports them as an isError result
+  handler(args: Record<string, unknown>, context: ToolContext): Promise<ToolCallResult>
+  // Lets the agent select this tool for a chat message; returns the tool arguments when it applies
+  matchMessage?(message: string): Record<string, unknown> | undefined
+}
+
+export class ToolRegistry {
+  private tools: Map<string, Tool> = new Map()
+
+  register(tool: Tool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`)
+    }
+    this.tools.set(tool.name, tool)
+    return this
+  }
+
+  get(name: string | undefined): Tool | undefined {
+    return name ? this.tools.get(name) : undefined
+  }
+
+  getAll(): Tool[] {
+    return [...this.tools.values()]
+  }
+
+  /**
+   * MCP tool definitions for tools/list
+   */
+  getDefinitions(): ToolDefinition[] {
+    return this.getAll().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema
+    }))
+  }
+
+  /**
+   * First registered tool that applies to a chat message, with its arguments
+   */
+  selectForMessage(message: string): { tool: Tool; args: Record<string, unknown> } | undefined {
+    for (const tool of this.tools.values()) {
+      const args = tool.matchMessage?.(message)
+      if (args) {
+        return { tool, args }
+      }
+    }
+    return undefined
+  }
+}
@@ -0,0 +1,73 @@
+// Client connections - transport-independent handle used by the JSON-RPC handlers
+
+import { WebSocket } from 'ws'
+
+export type TransportType = 'websocket' | 'stdio' | 'http'
+
+export interface ClientConnection {
+  readonly transport: TransportType
+  isOpen(): boolean
+  send(message: unknown): void
+  // Only transports that can carry raw bytes next to JSON messages implement this
+  sendBinary?(data: Buffer): void
+  // Transports with a connection of their own to end close it on shutdown
+  close?(): void
+}
+
+export class WebSocketConnection implements ClientConnection {
+  readonly transport: TransportType = 'websocket'
+  private ws: WebSocket
+
+  constructor(ws: WebSocket) {
+    this.ws = ws
+  }
+
+  isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN
+  }
+
+  send(message: unknown): void {
+    this.ws.send(JSON.stringify(message))
+  }
+
+  sendBinary(data: Buffer): void {
+    this.ws.send(data, { binary: true })
+  }
+
+  close(): void {
+    // 1001 Going Away: the client should reconnect, possibly to another instance
+    this.ws.close(1001, 'Server shutting down')
+  }
+}
+
+/**
+ * Forwards to a connection that can be swapped, so the output of a long-running
+ * request follows its stream to the client that resumed it
+ */
+export class ForwardingConnection implements ClientConnection {
+  private target: ClientConnection
+
+  constructor(target: ClientConnection) {
+    this.target = target
+  }
+
+  get transport(): TransportType {
+    return this.target.transport
+  }
+
+  setTarget(target: ClientConnection): void {
+    this.target = target
+  }
+
+  isOpen(): boolean {
+    return this.target.isOpen()
+  }
+
+  send(message: unknown): void {
+    this.target.send(message)
+  }
+
+  sendBinary(data: Buffer): void {
+    this.target.sendBinary?.(data)
+  }
+}
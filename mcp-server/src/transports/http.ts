@@ -0,0 +1,363 @@
+// HTTP transport - REST endpoints and Server-Sent Events for clients that can't hold a WebSocket
+//
+//   POST /chat    SSE stream of the same StreamChunk events as the WebSocket `stream` notifications
+//   POST /charts  Render a chart from ChartData + ChartOptions, optionally transformed (PNG bytes, or JSON with Accept: application/json)
+//   GET  /status  Same payload as the getStatus method
+//   GET  /tools   Same payload as tools/list
+//   GET  /charts/:chartId/image?expires=&sig=  Stored chart PNG, through the signed link of the `url` image delivery mode
+//   GET  /metrics Prometheus text format metrics
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { ClientConnection, TransportType } from './connection.js'
+import { parseBearerToken } from '../auth/apiKeys.js'
+import { validateTransforms } from '../agent/dataTransforms.js'
+import { createLogger } from '../utils/logger.js'
+
+const logger = createLogger('HTTP')
+
+const MAX_BODY_BYTES = 1024 * 1024
+const CHART_IMAGE_PATH = /^\/charts\/([^/]+)\/image$/
+// Longest a browser may cache a chart image; a deleted chart stays visible at most this long
+const IMAGE_CACHE_SECONDS = 300
+
+// JSON-RPC errors with a more specific HTTP status than 500
+const ERROR_STATUS: Record<number, number> = {
+  [-32602]: 400, // invalid params
+  [-32001]: 401, // authentication required
+  [-32002]: 429, // rejected by the job scheduler
+  [-32003]: 503 // server is shutting down
+}
+
+export interface HttpClient {
+  clientId: string
+  sessionId: string
+  sessionToken: string
+}
+
+export interface HttpRequest {
+  id: string | number
+  method: string
+  params?: Record<string, unknown>
+}
+
+export interface HttpTransportHandlers {
+  // Attach a new client to the session for the token, or to a new session.
+  // Throws HttpError(401) when authentication is required and apiKey isn't valid.
+  openClient(conn: ClientConnection, sessionToken?: string, apiKey?: string): HttpClient
+  // keepSession leaves the session resumable with its token after the request ends
+  closeClient(clientId: string, keepSession: boolean): void
+  dispatch(clientId: string, conn: ClientConnection, request: HttpRequest): Promise<void>
+  // Throws HttpError(403) unless expires and signature come from a valid, unexpired image link;
+  // validForMs is how long the link has left
+  getChartImage(chartId: string, expires: string | null, signature: string | null): Promise<{ png: Buffer; validForMs: number } | undefined>
+  // Throws HttpError(401) when authentication is required and apiKey isn't valid
+  getMetrics(apiKey?: string): string
+}
+
+interface JsonRpcMessage {
+  id?: string | number
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+/**
+ * Writes server messages to an open SSE response: `stream` notifications become
+ * `stream` events, the final response becomes a `result` or `error` event
+ */
+export class SseConnection implements ClientConnection {
+  readonly transport: TransportType = 'http'
+  private res: ServerResponse
+  private open = true
+
+  constructor(res: ServerResponse) {
+    this.res = res
+    res.on('close', () => {
+      this.open = false
+    })
+  }
+
+  isOpen(): boolean {
+    return this.open && !this.res.writableEnded
+  }
+
+  send(message: unknown): void {
+    const msg = message as JsonRpcMessage
+    if (msg.method) {
+      this.writeEvent(msg.method, msg.params)
+    } else if (msg.error) {
+      this.writeEvent('error', msg.error)
+    } else {
+      this.writeEvent('result', msg.result)
+    }
+  }
+
+  writeEvent(event: string, data: unknown): void {
+    if (!this.isOpen()) return
+    this.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+}
+
+/**
+ * Buffers every server message so a plain HTTP response can be built once the request completes
+ */
+export class CollectingConnection implements ClientConnection {
+  readonly transport: TransportType = 'http'
+  readonly messages: JsonRpcMessage[] = []
+
+  isOpen(): boolean {
+    return true
+  }
+
+  send(message: unknown): void {
+    this.messages.push(message as JsonRpcMessage)
+  }
+
+  getResponse(id: string | number): JsonRpcMessage | undefined {
+    return this.messages.find(m => m.id === id && !m.method)
+  }
+
+  getStreamChunks(): Array<Record<string, unknown>> {
+    return this.messages
+      .filter(m => m.method === 'stream')
+      .map(m => m.params as Record<string, unknown>)
+  }
+}
+
+export class HttpError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+  }
+}
+
+export function startHttpTransport(port: number, handlers: HttpTransportHandlers): Server {
+  const server = createServer((req, res) => {
+    setCorsHeaders(res)
+    routeRequest(req, res, handlers).catch((error) => {
+      const status = error instanceof HttpError ? error.status : 500
+      const message = error instanceof Error ? error.message : 'Internal error'
+      if (status >= 500) {
+        logger.error('Request failed', { method: req.method, url: req.url, error })
+      }
+      if (res.headersSent) {
+        res.end()
+      } else {
+        sendJson(res, status, { error: { code: status, message } })
+      }
+    })
+  })
+
+  server.listen(port, () => {
+    logger.info(`HTTP API listening on http://localhost:${port}`)
+  })
+
+  return server
+}
+
+async function routeRequest(req: IncomingMessage, res: ServerResponse, handlers: HttpTransportHandlers) {
+  const url = new URL(req.url || '/', 'http://localhost')
+  const path = url.pathname
+  logger.info('Request', { method: req.method, path })
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204)
+    res.end()
+    return
+  }
+
+  if (req.method === 'GET' && path === '/status') {
+    await handleJsonRequest(req, res, handlers, 'getStatus')
+  } else if (req.method === 'GET' && path === '/tools') {
+    await handleJsonRequest(req, res, handlers, 'tools/list')
+  } else if (req.method === 'POST' && path === '/chat') {
+    await handleChat(req, res, handlers)
+  } else if (req.method === 'POST' && path === '/charts') {
+    await handleCharts(req, res, handlers)
+  } else if (req.method === 'GET' && path === '/metrics') {
+    const body = handlers.getMetrics(parseBearerToken(req.headers.authorization))
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+    res.end(body)
+  } else if (req.method === 'GET' && CHART_IMAGE_PATH.test(path)) {
+    await handleChartImage(res, handlers, path.match(CHART_IMAGE_PATH)![1], url.searchParams)
+  } else {
+    throw new HttpError(404, `Not found: ${req.method} ${path}`)
+  }
+}
+
+async function handleJsonRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  handlers: HttpTransportHandlers,
+  method: string
+) {
+  const conn = new CollectingConnection()
+  const sessionToken = getSessionToken(req)
+  const client = handlers.openClient(conn, sessionToken, parseBearerToken(req.headers.authorization))
+  try {
+    await handlers.dispatch(client.clientId, conn, { id: 1, method })
+  } finally {
+    // Throwaway sessions are discarded; a caller's own session stays resumable
+    handlers.closeClient(client.clientId, !!sessionToken)
+  }
+
+  const response = conn.getResponse(1)
+  if (!response || response.error) {
+    throw new HttpError(errorStatus(response), response?.error?.message || 'No response')
+  }
+  sendJson(res, 200, response.result)
+}
+
+async function handleChat(req: IncomingMessage, res: ServerResponse, handlers: HttpTransportHandlers) {
+  const body = await readJsonBody(req)
+  if (typeof body.message !== 'string' || !body.message.trim()) {
+    throw new HttpError(400, 'message is required')
+  }
+
+  const conn = new SseConnection(res)
+  const sessionToken = typeof body.sessionToken === 'string' ? body.sessionToken : getSessionToken(req)
+  // Authenticate before the SSE headers go out so a rejection is still a plain 401
+  const client = handlers.openClient(conn, sessionToken, parseBearerToken(req.headers.authorization))
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  })
+
+  // Closing the response cancels the chat like closing a WebSocket does
+  res.on('close', () => handlers.closeClient(client.clientId, true))
+
+  conn.writeEvent('session', { sessionId: client.sessionId, sessionToken: client.sessionToken })
+
+  try {
+    await handlers.dispatch(client.clientId, conn, { id: 1, method: 'chat', params: { message: body.message } })
+  } finally {
+    res.end()
+  }
+}
+
+async function handleCharts(req: IncomingMessage, res: ServerResponse, handlers: HttpTransportHandlers) {
+  const body = await readJsonBody(req)
+  const data = body.data as { labels?: unknown; datasets?: unknown } | undefined
+  const options = body.options as { type?: unknown } | undefined
+  if (!data || !Array.isArray(data.labels) || !Array.isArray(data.datasets) || data.datasets.length === 0) {
+    throw new HttpError(400, 'data must contain labels and at least one dataset')
+  }
+  if (!options || !['bar', 'line', 'pie', 'doughnut'].includes(options.type as string)) {
+    throw new HttpError(400, 'options.type must be one of bar, line, pie, doughnut')
+  }
+  const transforms = validateTransforms(body.transforms)
+  if ('error' in transforms) {
+    throw new HttpError(400, `Invalid transforms: ${transforms.error}`)
+  }
+
+  const conn = new CollectingConnection()
+  const sessionToken = getSessionToken(req)
+  const client = handlers.openClient(conn, sessionToken, parseBearerToken(req.headers.authorization))
+  try {
+    await handlers.dispatch(client.clientId, conn, {
+      id: 1,
+      method: 'generateChart',
+      params: { type: 'data', data: { data, options, transforms: transforms.transforms } }
+    })
+  } finally {
+    handlers.closeClient(client.clientId, !!sessionToken)
+  }
+
+  const response = conn.getResponse(1)
+  if (!response || response.error) {
+    throw new HttpError(errorStatus(response), response?.error?.message || 'Chart generation failed')
+  }
+
+  const image = conn.getStreamChunks().find(chunk => chunk.type === 'image')
+  if (!image) {
+    throw new HttpError(500, 'Chart generation produced no image')
+  }
+
+  const imageBase64 = image.content as string
+  if ((req.headers.accept || '').includes('application/json')) {
+    sendJson(res, 200, {
+      // The result's chartData is the rendered data, after any transforms
+      ...(response.result as Record<string, unknown>),
+      mimeType: 'image/png',
+      image: imageBase64
+    })
+  } else {
+    const png = Buffer.from(imageBase64, 'base64')
+    res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': png.length })
+    res.end(png)
+  }
+}
+
+// No API key: <img> tags can't send an Authorization header, so the signed link is the grant
+async function handleChartImage(res: ServerResponse, handlers: HttpTransportHandlers, chartId: string, query: URLSearchParams) {
+  const image = await handlers.getChartImage(chartId, query.get('expires'), query.get('sig'))
+  if (!image) {
+    throw new HttpError(404, `Chart not found: ${chartId}`)
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'image/png',
+    'Content-Length': image.png.length,
+    // Only the link's holder may see the chart, and it can be deleted
+    'Cache-Control': `private, max-age=${Math.min(Math.floor(image.validForMs / 1000), IMAGE_CACHE_SECONDS)}`
+  })
+  res.end(image.png)
+}
+
+function errorStatus(response: JsonRpcMessage | undefined): number {
+  return (response?.error && ERROR_STATUS[response.error.code]) || 500
+}
+
+function getSessionToken(req: IncomingMessage): string | undefined {
+  const header = req.headers['x-session-token']
+  return typeof header === 'string' && header ? header : undefined
+}
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let size = 0
+    const chunks: Buffer[] = []
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+
+    req.on('end', () => {
+      try {
+        const parsed = JSON.parse(Buffer.concat(chunks).toString() || '{}')
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          reject(new HttpError(400, 'Request body must be a JSON object'))
+          return
+        }
+        resolve(parsed)
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'))
+      }
+    })
+
+    req.on('error', reject)
+  })
+}
+
+function setCorsHeaders(res: ServerResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Session-Token')
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
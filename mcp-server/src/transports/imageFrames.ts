@@ -0,0 +1,21 @@
+// Binary image frames - chart images sent as raw bytes instead of base64 inside JSON
+//
+// Frame layout:
+//   [uint32 big-endian header length][UTF-8 JSON header][image bytes]
+// The header's imageId matches the `image.id` of the `stream` chunk announcing the image.
+
+export type ImageDelivery = 'base64' | 'binary' | 'url'
+
+export const IMAGE_DELIVERY_MODES: ImageDelivery[] = ['base64', 'binary', 'url']
+
+export interface ImageFrameHeader {
+  imageId: string
+  mimeType: string
+}
+
+export function encodeImageFrame(header: ImageFrameHeader, image: Buffer): Buffer {
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8')
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(headerBytes.length, 0)
+  return Buffer.concat([length, headerBytes, image])
+}
@@ -0,0 +1,57 @@
+// stdio transport - newline-delimited JSON-RPC over stdin/stdout
+// Used by desktop MCP clients that launch the server as a subprocess
+
+import { createInterface } from 'readline'
+import { ClientConnection, TransportType } from './connection.js'
+
+export class StdioConnection implements ClientConnection {
+  readonly transport: TransportType = 'stdio'
+  private output: NodeJS.WritableStream
+  private open = true
+
+  constructor(output: NodeJS.WritableStream = process.stdout) {
+    this.output = output
+  }
+
+  isOpen(): boolean {
+    return this.open
+  }
+
+  send(message: unknown): void {
+    this.output.write(JSON.stringify(message) + '\n')
+  }
+
+  close(): void {
+    this.open = false
+  }
+}
+
+/**
+ * stdout carries the protocol stream, so every console method must write to stderr
+ */
+export function redirectConsoleToStderr(): void {
+  const toStderr = (...args: unknown[]) => console.error(...args)
+  console.log = toStderr
+  console.info = toStderr
+  console.warn = toStderr
+  console.debug = toStderr
+}
+
+/**
+ * Read one JSON-RPC message per line from stdin until it closes
+ */
+export function startStdioTransport(
+  onLine: (line: string) => void,
+  onClose: () => void,
+  input: NodeJS.ReadableStream = process.stdin
+): void {
+  const rl = createInterface({ input, terminal: false })
+
+  rl.on('line', (line) => {
+    if (line.trim()) {
+      onLine(line)
+    }
+  })
+
+  rl.on('close', onClose)
+}
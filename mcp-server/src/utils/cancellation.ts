@@ -0,0 +1,19 @@
+// Cancellation helpers for aborting in-flight generation requests
+
+export class RequestCancelledError extends Error {
+  constructor(message: string = 'Request cancelled') {
+    super(message)
+    this.name = 'RequestCancelledError'
+  }
+}
+
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof RequestCancelledError ||
+    (error instanceof Error && error.name === 'AbortError')
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError()
+  }
+}
@@ -0,0 +1,130 @@
+// Structured logger - Leveled JSON log lines with a per-request correlation context
+//
+//   LOG_LEVEL=debug|info|warn|error   Minimum level written (default info); payload dumps are debug
+//   LOG_FORMAT=json|pretty            One JSON object per line (default), or readable text for development
+//
+// The correlation context (clientId, requestId, messageId) is carried with AsyncLocalStorage, so
+// everything awaited inside runWithLogContext - Agent.chat, ChartGenerator.generateFromData,
+// Ollama calls - logs with the ids of the request that triggered it.
+
+import { AsyncLocalStorage } from 'async_hooks'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface LogContext {
+  clientId?: string
+  requestId?: string | number
+  messageId?: string
+  [key: string]: unknown
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const contextStorage = new AsyncLocalStorage<LogContext>()
+
+const minLevel: LogLevel = parseLevel(process.env.LOG_LEVEL)
+const pretty = process.env.LOG_FORMAT === 'pretty'
+
+export class Logger {
+  private component: string
+  private bindings: LogContext
+
+  constructor(component: string, bindings: LogContext = {}) {
+    this.component = component
+    this.bindings = bindings
+  }
+
+  child(bindings: LogContext): Logger {
+    return new Logger(this.component, { ...this.bindings, ...bindings })
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[minLevel]
+  }
+
+  debug(message: string, fields?: Record<string, unknown>) {
+    this.write('debug', message, fields)
+  }
+
+  info(message: string, fields?: Record<string, unknown>) {
+    this.write('info', message, fields)
+  }
+
+  warn(message: string, fields?: Record<string, unknown>) {
+    this.write('warn', message, fields)
+  }
+
+  error(message: string, fields?: Record<string, unknown>) {
+    this.write('error', message, fields)
+  }
+
+  private write(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+    if (!this.isLevelEnabled(level)) return
+
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      msg: message,
+      ...contextStorage.getStore(),
+      ...this.bindings
+    }
+    for (const [key, value] of Object.entries(fields || {})) {
+      entry[key] = value instanceof Error ? serializeError(value) : value
+    }
+
+    const line = pretty ? formatPretty(entry) : safeStringify(entry)
+    // Through console so the stdio transport's stderr redirect still applies
+    if (level === 'error' || level === 'warn') {
+      console.error(line)
+    } else {
+      console.log(line)
+    }
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return new Logger(component)
+}
+
+/**
+ * Run fn with the given ids added to the correlation context of every log line it produces
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn)
+}
+
+/**
+ * Add ids (e.g. a messageId assigned mid-request) to the current correlation context
+ */
+export function addLogContext(context: LogContext) {
+  const store = contextStorage.getStore()
+  if (store) {
+    Object.assign(store, context)
+  }
+}
+
+function parseLevel(value: string | undefined): LogLevel {
+  const level = value?.toLowerCase()
+  return level && level in LEVELS ? level as LogLevel : 'info'
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return { name: error.name, message: error.message, stack: error.stack }
+}
+
+function safeStringify(entry: Record<string, unknown>): string {
+  try {
+    return JSON.stringify(entry)
+  } catch {
+    // e.g. a circular structure in a field; keep the line itself
+    const { time, level, component, msg } = entry
+    return JSON.stringify({ time, level, component, msg, fields: '[unserializable]' })
+  }
+}
+
+function formatPretty(entry: Record<string, unknown>): string {
+  const { time, level, component, msg, ...rest } = entry
+  const extra = Object.keys(rest).length > 0 ? ` ${safeStringify(rest)}` : ''
+  return `${time} ${String(level).toUpperCase().padEnd(5)} [${component}] ${msg}${extra}`
+}
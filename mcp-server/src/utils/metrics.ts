@@ -0,0 +1,166 @@
+// Metrics - Counters, gauges and histograms rendered in the Prometheus text format on GET /metrics
+
+import { TokenRateCalculator } from './streaming.js'
+
+type Labels = Record<string, string>
+
+interface Metric {
+  render(): string[]
+}
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+
+export class Counter implements Metric {
+  private name: string
+  private help: string
+  private values: Map<string, { labels: Labels; value: number }> = new Map()
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  inc(labels: Labels = {}, value: number = 1) {
+    const key = labelKey(labels)
+    const entry = this.values.get(key) || { labels, value: 0 }
+    entry.value += value
+    this.values.set(key, entry)
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * Gauges read their current values when scraped
+ */
+export class Gauge implements Metric {
+  private name: string
+  private help: string
+  private collect: () => Array<{ labels?: Labels; value: number }>
+
+  constructor(name: string, help: string, collect: () => Array<{ labels?: Labels; value: number }>) {
+    this.name = name
+    this.help = help
+    this.collect = collect
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`]
+    for (const { labels, value } of this.collect()) {
+      lines.push(`${this.name}${formatLabels(labels || {})} ${value}`)
+    }
+    return lines
+  }
+}
+
+export class Histogram implements Metric {
+  private name: string
+  private help: string
+  private buckets: number[]
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map()
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    this.name = name
+    this.help = help
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, entry)
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry!.counts[i]++
+    })
+    entry.sum += value
+    entry.count++
+  }
+
+  /**
+   * Returns a function that observes the seconds elapsed since startTimer was called
+   */
+  startTimer(labels: Labels = {}): () => number {
+    const start = process.hrtime.bigint()
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9
+      this.observe(labels, seconds)
+      return seconds
+    }
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = []
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric)
+    return metric
+  }
+
+  render(): string {
+    return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n'
+  }
+}
+
+export const registry = new MetricsRegistry()
+
+// Streamed Ollama tokens over the last second, shared by every OllamaClient
+export const tokenRate = new TokenRateCalculator()
+
+export const metrics = {
+  requests: registry.register(new Counter('mcp_requests_total', 'JSON-RPC requests received, by method')),
+  requestErrors: registry.register(new Counter('mcp_request_errors_total', 'JSON-RPC error responses, by error code')),
+  requestDuration: registry.register(new Histogram('mcp_request_duration_seconds', 'Time to handle a JSON-RPC request, by method')),
+  chartRenderDuration: registry.register(new Histogram('chart_render_duration_seconds', 'Time to render a chart image, including background and watermark', [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10])),
+  ollamaDuration: registry.register(new Histogram('ollama_request_duration_seconds', 'Ollama request latency, by operation')),
+  ollamaTokens: registry.register(new Counter('ollama_tokens_total', 'Tokens streamed from Ollama, by operation')),
+  ollamaErrors: registry.register(new Counter('ollama_errors_total', 'Failed Ollama requests, by operation')),
+  chartParseFailures: registry.register(new Counter('chart_parse_failures_total', 'LLM responses no chart spec could be parsed from')),
+  chartRepairs: registry.register(new Counter('chart_repairs_total', 'Chart spec repair attempts, by outcome (repaired or failed)')),
+  fallbackCharts: registry.register(new Counter('fallback_charts_total', 'Sample-data charts rendered because no valid chart spec was produced, even after repair attempts')),
+  intents: registry.register(new Counter('intent_classifications_total', 'Chat messages classified, by intent and source (llm or rules)')),
+  agentToolCalls: registry.register(new Counter('agent_tool_calls_total', 'Tool calls made by the model during chat, by tool and outcome (ok or error)')),
+  contextCompactions: registry.register(new Counter('context_compactions_total', 'Conversation histories compacted to fit the token budget, by method (summary or truncate)')),
+  tableCharts: registry.register(new Counter('table_charts_total', 'Charts built from pasted tables, by format and who chose the columns (model or default)')),
+  sqlQueries: registry.register(new Counter('sql_queries_total', 'SQLite queries, by outcome (ok, error, timeout or rejected)')),
+  chartTransforms: registry.register(new Counter('chart_transforms_total', 'Data transform steps applied before rendering, by op and outcome (ok or error)')),
+  dashboards: registry.register(new Counter('dashboards_total', 'Dashboards rendered, by layout (separate or grid)'))
+}
+
+registry.register(new Gauge('ollama_tokens_per_second', 'Tokens streamed from Ollama during the last second', () => [
+  { value: tokenRate.getTokensPerSecond() }
+]))
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',')
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  const escaped = entries.map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+  return `{${escaped.join(',')}}`
+}
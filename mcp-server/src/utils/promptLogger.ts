@@ -1,24 +1,31 @@
-import { appendFileSync, existsSync, mkdirSync } from 'fs'
+import { createWriteStream, existsSync, mkdirSync, WriteStream } from 'fs'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
+import { createLogger } from './logger.js'
+
+const logger = createLogger('PromptLogger')
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
 export interface PromptLogEntry {
-  type: 'chat' | 'chart'
+  type: 'chat' | 'chart' | 'intent'
   prompt: string
   response: string
   latencyMs: number
   model: string
   promptVersion: string
   experimentId?: string
+  // Label of the API key the client authenticated with, when authentication is enabled
+  apiKeyLabel?: string
   metadata?: Record<string, unknown>
 }
 
 export class PromptLogger {
   private logPath: string
   private enabled: boolean
+  // Opened on the first entry; appends are buffered so logging never blocks a request
+  private stream?: WriteStream
 
   constructor() {
     // Log to experiments/prompts/prompt-log.jsonl
@@ -44,11 +51,24 @@ export class PromptLogger {
       ...entry
     }
 
-    try {
-      appendFileSync(this.logPath, JSON.stringify(logEntry) + '\n')
-    } catch (error) {
-      console.error('Failed to write prompt log:', error)
+    if (!this.stream) {
+      this.stream = createWriteStream(this.logPath, { flags: 'a' })
+      this.stream.on('error', (error) => {
+        logger.error('Failed to write prompt log', { error })
+      })
     }
+    this.stream.write(JSON.stringify(logEntry) + '\n')
+  }
+
+  /**
+   * Flush buffered entries to disk and close the file; later entries reopen it
+   */
+  close(): Promise<void> {
+    const stream = this.stream
+    this.stream = undefined
+    if (!stream) return Promise.resolve()
+    // Write errors are already logged by the stream's error handler
+    return new Promise((resolve) => stream.end(() => resolve()))
   }
 
   // Get log path for external access
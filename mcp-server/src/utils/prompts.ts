@@ -1,9 +1,21 @@
 // Prompt Registry - Version controlled prompts
 // See experiments/prompts/ for documentation and changelog
 
+import type { ChartContext } from '../agent/contextManager.js'
+
 export const PROMPT_VERSIONS = {
   system: 'v1.0.0',
-  chart: 'v1.0.0'
+  chart: 'v1.2.0',
+  modification: 'v1.0.0',
+  intent: 'v1.1.0',
+  chartQuestion: 'v1.0.0',
+  chartRepair: 'v1.0.0',
+  toolAgent: 'v1.5.0',
+  summary: 'v1.0.0',
+  tableChart: 'v1.2.0',
+  sqlChart: 'v1.0.0',
+  sqlRepair: 'v1.0.0',
+  dashboard: 'v1.0.0'
 }
 
 export function getSystemPrompt(): string {
@@ -36,9 +48,9 @@ Supported chart types: bar, line, pie, doughnut
 For regular conversations, respond naturally and helpfully.`
 }
 
-export function getChartPrompt(userRequest: string): string {
-  // Version: v1.0.2
-  // Last updated: Added background image support information
+export function getChartPrompt(userRequest: string, context?: ChartContext): string {
+  // Version: v1.2.0
+  // Last updated: Data transforms
   return `You are a data visualization expert. Generate ONLY a JSON specification for a chart.
 
 CRITICAL: Your response MUST be ONLY valid JSON wrapped in \`\`\`json code blocks. Do NOT include any explanatory text before or after the JSON.
@@ -54,7 +66,9 @@ Required JSON structure:
       "label": "Dataset Name",
       "data": [10, 20, 30]
     }
-  ]
+  ],
+  "source": "user|sample",
+  "sourceNote": "Where the numbers came from"
 }
 \`\`\`
 
@@ -62,18 +76,273 @@ Rules:
 1. If user mentions "pie" or "doughnut", use that type
 2. If user mentions "line" or "trend", use "line"
 3. If user mentions "bar" or "comparison", use "bar"
-4. If no specific data provided, create realistic sample data (5-8 data points)
-5. Labels and data arrays must have the same length
-6. Use descriptive titles based on the user's request
-7. Note: Background images can be requested by including "with background" or "background image" in the request
+4. If the user provided data, in the request or earlier in the conversation, use their exact labels and values and set "source" to "user"
+5. Only if no provided data fits the request, create realistic sample data (5-8 data points) and set "source" to "sample"
+6. In "sourceNote", say briefly which data you used, e.g. "the monthly sales table from your earlier message"
+7. Labels and data arrays must have the same length
+8. Use descriptive titles based on the user's request
+9. Note: Background images can be requested by including "with background" or "background image" in the request
+10. For a ranking, top N, shares, running totals or averages of the user's data, keep their exact values and add a "transforms" list that does the math, e.g. "transforms": [{"op": "top_n", "n": 5}]. Steps: sort {by, order}, top_n {n, other}, aggregate {fn} for repeated labels, percent, cumulative, moving_average {window}
+${formatChartContext(context)}
+User request: ${userRequest}
+
+Generate ONLY the JSON code block, nothing else.`
+}
+
+function formatChartContext(context?: ChartContext): string {
+  if (!context) return ''
+
+  const sections: string[] = []
+  if (context.summary) {
+    sections.push(`Summary of the earlier conversation:\n${context.summary}`)
+  }
+  if (context.userData.length > 0) {
+    sections.push(`Data the user provided:\n${context.userData.join('\n\n---\n\n')}`)
+  }
+  if (context.recentTurns.length > 0) {
+    sections.push(`Recent conversation:\n${context.recentTurns.map(turn => `${turn.role.toUpperCase()}: ${turn.content}`).join('\n\n')}`)
+  }
+  return sections.length > 0 ? `\n${sections.join('\n\n')}\n` : ''
+}
+
+export function getChartModificationPrompt(currentChart: string, userRequest: string): string {
+  // Version: v1.0.0
+  // Last updated: Initial release
+  return `You are a data visualization expert. The user wants to change an existing chart.
+
+Current chart specification:
+\`\`\`json
+${currentChart}
+\`\`\`
+
+Describe ONLY the changes as JSON wrapped in \`\`\`json code blocks. Include only the fields that change:
+\`\`\`json
+{
+  "type": "bar|line|pie|doughnut",
+  "title": "New title",
+  "color": "color applied to every dataset",
+  "colors": { "Dataset Name": "color for that dataset" },
+  "labels": ["full", "replacement", "labels"],
+  "datasets": [
+    { "label": "Dataset to add or replace", "data": [10, 20, 30] }
+  ],
+  "removeDatasets": ["Dataset Name"],
+  "removeLabels": ["label"]
+}
+\`\`\`
+
+Rules:
+1. Omit every field that should stay the same
+2. Colors may be CSS color names or hex/rgba values
+3. New or replaced datasets must have one value per label
+4. Keep the existing data unless the user asks to change it
+
+User request: ${userRequest}
+
+Generate ONLY the JSON code block, nothing else.`
+}
+
+export function getIntentPrompt(hasChart: boolean): string {
+  // Version: v1.1.0
+  // Last updated: Dashboard intent
+  return `You classify messages sent to a chat assistant that can draw charts.
+
+Respond with ONLY a JSON object: {"intent": "<intent>", "confidence": <0 to 1>}
+
+Intents:
+- chat: conversation, general questions, how-to questions, anything that doesn't need a chart
+- new_chart: asks for a chart, graph or visualization, or to compare, break down or show a trend in data
+- dashboard: asks for a dashboard, an overview or several charts at once, e.g. the same data by several dimensions
+- modify_chart: asks to change the current chart (type, title, colors, labels, data)
+- data_question: asks about the values in the current chart (highest, total, average, differences)
+- export: asks to export, download or save the current chart or its data
+
+${hasChart
+    ? 'The user is currently looking at a chart.'
+    : 'There is no chart yet, so modify_chart, data_question and export do not apply.'}
+
+Examples:
+"show me how to bake bread" -> {"intent": "chat", "confidence": 0.95}
+"compare revenue across regions" -> {"intent": "new_chart", "confidence": 0.9}
+"give me an overview of Q1 sales by region, product and month" -> {"intent": "dashboard", "confidence": 0.9}
+"make the bars green" -> {"intent": "modify_chart", "confidence": 0.9}
+"which month had the most sales?" -> {"intent": "data_question", "confidence": 0.85}
+"download this as csv" -> {"intent": "export", "confidence": 0.9}`
+}
+
+export function getChartQuestionPrompt(currentChart: string): string {
+  // Version: v1.0.0
+  // Last updated: Initial release
+  return `The user is looking at this chart:
+\`\`\`json
+${currentChart}
+\`\`\`
+
+Answer their question using only the values in this chart. Quote the relevant numbers.
+If the chart doesn't contain the answer, say so instead of guessing.`
+}
+
+export function getChartRepairPrompt(error: string): string {
+  // Version: v1.0.0
+  // Last updated: Initial release
+  return `Your previous response could not be used as a chart specification: ${error}
+
+Reply with the corrected specification: ONLY valid JSON wrapped in \`\`\`json code blocks, with "type", "title", "labels" and "datasets".
+Keep the same data unless the problem was with the data itself. Do not explain the fix.`
+}
+
+export function getToolAgentPrompt(currentChart?: string, table?: string): string {
+  // Version: v1.5.0
+  // Last updated: Dashboards (render_dashboard)
+  return `You are a helpful AI assistant that can engage in conversations and create data visualizations.
+
+You have tools for charts:
+- render_chart draws a new chart from labels and datasets
+- render_dashboard draws several related charts at once as a dashboard
+- modify_chart changes the current chart's type, title, colors, labels or datasets
+- transform_data reshapes the current chart: sort, top N with "Other", filter, merge duplicate labels, pivot, percent of total, cumulative sum or moving average
+- get_chart_data reads the current chart's values
+- chart_table charts the table the user pasted or a dataset file; you pick the columns and its values are read from the table
+- list_datasets lists the dataset files the user can chart
+- list_databases lists the SQLite databases with their tables and columns
+- query_database charts the result of a read-only SELECT on one of those databases
+
+Use the tools whenever the user asks for a chart or a change to one; never write chart JSON in your answer.
+If the user pasted a table or refers to a dataset, chart it with chart_table instead of copying its numbers into render_chart.
+If the user asks about data in a database, query it with query_database; never make up its numbers.
+For rankings, shares, running totals or averages, pass "transforms" (or use transform_data) instead of calculating the values yourself.
+For a dashboard, an overview or the same data by several dimensions, use render_dashboard with one chart per view.
+If the user gives no data, make up realistic sample data and say that it is illustrative.
+If a tool returns an error, fix the arguments and call it again.
+After the tools have run, answer with a short explanation of the chart.
+For regular conversations, respond naturally without calling tools.
+
+${currentChart
+    ? `The user is currently looking at this chart:\n\`\`\`json\n${currentChart}\n\`\`\``
+    : 'There is no chart yet.'}${table ? `\n\nThe user's table:\n${table}` : ''}`
+}
+
+export function getTableChartPrompt(userRequest: string, table: string): string {
+  // Version: v1.2.0
+  // Last updated: Data transforms
+  return `You are a data visualization expert. The user wants a chart of a table they pasted or a dataset file they named.
+The chart's values are read directly from the table, so you only decide how to chart it.
+
+${table}
+
+Respond with ONLY valid JSON wrapped in \`\`\`json code blocks:
+\`\`\`json
+{
+  "type": "bar|line|pie|doughnut",
+  "title": "Descriptive Chart Title",
+  "labelColumn": "column whose values become the labels",
+  "valueColumns": ["number column to plot", "..."],
+  "transforms": []
+}
+\`\`\`
+
+Rules:
+1. Use the exact column names listed above
+2. labelColumn is usually the text or date column; valueColumns must be number columns
+3. If the user names the columns or the measure to show, plot only those
+4. Use "line" when the labels are dates or periods, "pie" or "doughnut" for shares of a whole with a single value column, otherwise "bar", unless the user asks for a type
+5. Base the title on the user's request and the column names
+6. "transforms" is optional; add steps when the user asks for them, e.g. [{"op": "top_n", "n": 5}]. Steps: sort {by, order}, top_n {n, other}, aggregate {fn} for repeated labels, pivot {column} to make one dataset per value of a text column (first step only), percent, cumulative, moving_average {window}
+
+User request: ${userRequest}`
+}
+
+export function getSqlChartPrompt(userRequest: string, database: string): string {
+  // Version: v1.0.0
+  // Last updated: Initial release
+  return `You are a data analyst. Write one SQLite query whose result is the data for the chart the user asks for.
+
+${database}
+
+Respond in exactly this format:
+TYPE: bar|line|pie|doughnut
+TITLE: Descriptive Chart Title
+\`\`\`sql
+SELECT ...
+\`\`\`
+
+Rules:
+1. Only a single read-only SELECT (WITH is allowed); never modify the database
+2. Use only the tables and columns listed above
+3. The first column is the chart's labels (category, date or period); every other column must be numeric and becomes a dataset
+4. Aggregate with GROUP BY so there are at most 50 rows, and ORDER BY the labels or the values
+5. Name the result columns with AS so they read well in a legend
+6. Use "line" for dates or periods, "pie" or "doughnut" for shares of a whole with one value column, otherwise "bar", unless the user asks for a type
 
+User request: ${userRequest}`
+}
+
+export function getSqlRepairPrompt(error: string): string {
+  // Version: v1.0.0
+  // Last updated: Initial release
+  return `The query could not be used: ${error}
+
+Reply with the corrected query in the same format (TYPE, TITLE and a \`\`\`sql block). Use only the listed tables and columns.`
+}
+
+export function getDashboardPrompt(userRequest: string, maxCharts: number, context?: ChartContext): string {
+  // Version: v1.0.0
+  // Last updated: Initial release
+  return `You are a data visualization expert. The user wants a dashboard: several charts that together give an overview. Generate ONLY a JSON specification for the dashboard.
+
+Required JSON structure:
+\`\`\`json
+{
+  "title": "Dashboard Title",
+  "charts": [
+    {
+      "type": "bar|line|pie|doughnut",
+      "title": "Chart Title",
+      "labels": ["category1", "category2", "category3"],
+      "datasets": [
+        {
+          "label": "Dataset Name",
+          "data": [10, 20, 30]
+        }
+      ]
+    }
+  ],
+  "source": "user|sample",
+  "sourceNote": "Where the numbers came from"
+}
+\`\`\`
+
+Rules:
+1. Make 2 to ${maxCharts} charts, one per dimension or question the user mentions (e.g. by region, by product, by month)
+2. Use the same dataset label for the same measure in every chart, so the charts read together
+3. Use "line" for dates or periods, "pie" or "doughnut" for shares of a whole, otherwise "bar"
+4. If the user provided data, in the request or earlier in the conversation, use their exact labels and values and set "source" to "user"; only otherwise create realistic sample data and set "source" to "sample"
+5. The charts must agree with each other: totals by region and by product add up to the same amount
+6. In each chart, labels and data arrays must have the same length
+7. A chart may add "transforms" for rankings, shares or running totals, as in a single chart spec
+${formatChartContext(context)}
 User request: ${userRequest}
 
 Generate ONLY the JSON code block, nothing else.`
 }
 
+export function getSummaryPrompt(previousSummary?: string): string {
+  // Version: v1.0.0
+  // Last updated: Initial release
+  return `You summarize the earlier part of a conversation between a user and a chart assistant so it can continue without the full transcript.
+
+Write a concise summary (at most 200 words) of:
+- What the user is analyzing and what they asked for
+- Charts that were made or changed, and the user's preferences (chart types, colors, titles)
+- Conclusions and answers that were given
+- Open questions or requests that are still pending
+
+Do not copy tables or datasets; they are kept separately. Respond with the summary only.
+${previousSummary ? `\nMerge in the summary of the conversation before that:\n${previousSummary}` : ''}`
+}
+
 // Export prompt metadata for logging
-export function getPromptMetadata(promptType: 'system' | 'chart') {
+export function getPromptMetadata(promptType: keyof typeof PROMPT_VERSIONS) {
   return {
     type: promptType,
     version: PROMPT_VERSIONS[promptType],
@@ -1,42 +1,110 @@
 // Streaming utilities for WebSocket communication
 
-export interface StreamBuffer {
+export interface BufferedChunk<T> {
+  // 1-based position in the message's stream, so a client can say where it left off
+  seq: number
+  chunk: T
+}
+
+export type StreamListener<T> = (chunk: T, seq: number) => void
+
+export interface StreamBuffer<T> {
   messageId: string
-  content: string
-  chunks: string[]
+  // Only clients of this session may resume the stream
+  sessionId?: string
+  chunks: BufferedChunk<T>[]
+  nextSeq: number
   startTime: number
+  completedAt?: number
+  // Receives each chunk as it is appended
+  listener?: StreamListener<T>
+}
+
+export interface StreamManagerOptions {
+  // Oldest chunks are dropped beyond this many per message
+  maxChunks?: number
+  // How long a completed stream stays available for replay
+  retentionMs?: number
 }
 
-export class StreamManager {
-  private buffers: Map<string, StreamBuffer> = new Map()
+/**
+ * Buffers the chunks of each message's stream so a client that reconnects
+ * can replay what it missed and then keep receiving the live chunks
+ */
+export class StreamManager<T> {
+  private buffers: Map<string, StreamBuffer<T>> = new Map()
+  private maxChunks: number
+  private retentionMs: number
+
+  constructor(options: StreamManagerOptions = {}) {
+    this.maxChunks = options.maxChunks ?? 1000
+    this.retentionMs = options.retentionMs ?? 60 * 1000
+  }
 
-  createBuffer(messageId: string): StreamBuffer {
-    const buffer: StreamBuffer = {
+  createBuffer(messageId: string, sessionId?: string, listener?: StreamListener<T>): StreamBuffer<T> {
+    const buffer: StreamBuffer<T> = {
       messageId,
-      content: '',
+      sessionId,
       chunks: [],
-      startTime: Date.now()
+      nextSeq: 1,
+      startTime: Date.now(),
+      listener
     }
     this.buffers.set(messageId, buffer)
     return buffer
   }
 
-  appendChunk(messageId: string, chunk: string): void {
+  /**
+   * Buffer a chunk and pass it to the stream's listener.
+   * Returns false if the message has no open buffer, leaving delivery to the caller.
+   */
+  appendChunk(messageId: string, chunk: T): boolean {
     const buffer = this.buffers.get(messageId)
-    if (buffer) {
-      buffer.content += chunk
-      buffer.chunks.push(chunk)
+    if (!buffer || buffer.completedAt) return false
+
+    const seq = buffer.nextSeq++
+    buffer.chunks.push({ seq, chunk })
+    if (buffer.chunks.length > this.maxChunks) {
+      buffer.chunks.shift()
     }
+    buffer.listener?.(chunk, seq)
+    return true
   }
 
-  getBuffer(messageId: string): StreamBuffer | undefined {
+  getBuffer(messageId: string): StreamBuffer<T> | undefined {
     return this.buffers.get(messageId)
   }
 
-  completeBuffer(messageId: string): StreamBuffer | undefined {
+  /**
+   * Streams of a session, e.g. to tell a reconnecting client what it can resume
+   */
+  getSessionBuffers(sessionId: string): StreamBuffer<T>[] {
+    return [...this.buffers.values()].filter(buffer => buffer.sessionId === sessionId)
+  }
+
+  /**
+   * Buffered chunks after afterSeq; truncated is set when some of them were already dropped
+   */
+  getChunksAfter(messageId: string, afterSeq: number): { chunks: BufferedChunk<T>[]; truncated: boolean } {
+    const buffer = this.buffers.get(messageId)
+    if (!buffer) return { chunks: [], truncated: false }
+
+    const firstSeq = buffer.chunks[0]?.seq ?? buffer.nextSeq
+    return {
+      chunks: buffer.chunks.filter(entry => entry.seq > afterSeq),
+      truncated: firstSeq > afterSeq + 1
+    }
+  }
+
+  /**
+   * Mark the stream finished; it stays available for replay for the retention period
+   */
+  completeBuffer(messageId: string): StreamBuffer<T> | undefined {
     const buffer = this.buffers.get(messageId)
-    if (buffer) {
-      this.buffers.delete(messageId)
+    if (buffer && !buffer.completedAt) {
+      buffer.completedAt = Date.now()
+      buffer.listener = undefined
+      setTimeout(() => this.buffers.delete(messageId), this.retentionMs).unref()
     }
     return buffer
   }
@@ -1,7 +1,8 @@
 import { useState } from 'react'
 
 export interface ChartImageProps {
-  base64: string
+  // Inline base64 PNG, or any URL the browser can load (data:, blob:, http:)
+  src: string
   alt: string
   chartData?: {
     labels: string[]
@@ -9,45 +10,33 @@ export interface ChartImageProps {
   }
 }
 
-export function ChartImage({ base64, alt, chartData }: ChartImageProps) {
+export function ChartImage({ src, alt, chartData }: ChartImageProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   const [isLoaded, setIsLoaded] = useState(false)
   const [hasError, setHasError] = useState(false)
   const [showDataTable, setShowDataTable] = useState(false)
 
-  const imageSrc = base64.startsWith('data:') ? base64 : `data:image/png;base64,${base64}`
-
-  console.log('ChartImage rendering, base64 length:', base64.length, 'chartData:', chartData)
+  const isUrl = /^(data|blob|https?):/.test(src)
+  const imageSrc = isUrl ? src : `data:image/png;base64,${src}`
 
   const handleClick = () => {
     setIsExpanded(!isExpanded)
   }
 
   const handleLoad = () => {
-    console.log('Image loaded successfully')
     setIsLoaded(true)
   }
 
   const handleError = () => {
-    console.error('Image failed to load, base64 preview:', base64.substring(0, 100))
+    console.error('Image failed to load, src preview:', src.substring(0, 100))
     setHasError(true)
   }
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     try {
-      // Convert base64 to blob
-      const base64Data = base64.startsWith('data:') 
-        ? base64.split(',')[1] 
-        : base64
-      
-      const byteCharacters = atob(base64Data)
-      const byteNumbers = new Array(byteCharacters.length)
-      for (let i = 0; i < byteCharacters.length; i++) {
-        byteNumbers[i] = byteCharacters.charCodeAt(i)
-      }
-      const byteArray = new Uint8Array(byteNumbers)
-      const blob = new Blob([byteArray], { type: 'image/png' })
-      
+      // fetch() resolves data:, blob: and http URLs alike
+      const blob = await (await fetch(imageSrc)).blob()
+
       // Create download link
       const url = URL.createObjectURL(blob)
       const link = document.createElement('a')
@@ -65,7 +54,7 @@ export function ChartImage({ base64, alt, chartData }: ChartImageProps) {
   if (hasError) {
     return (
       <div className="chart-error">
-        Failed to load chart image. Base64 length: {base64.length}
+        Failed to load chart image.
       </div>
     )
   }
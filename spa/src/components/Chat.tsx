@@ -1,5 +1,5 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
-import { useWebSocket, StreamChunk, ConnectionStatus } from '../hooks/useWebSocket'
+import { useWebSocket, StreamChunk, ConnectionStatus, DashboardLayout } from '../hooks/useWebSocket'
 import { createMCPClient } from '../services/mcpClient'
 import { Message, MessageContent } from './Message'
 import promptsConfig from '../config/prompts.json'
@@ -14,9 +14,32 @@ interface ChatMessage {
     labels: string[]
     datasets: Array<{ label: string; data: number[] }>
   }
+  sampleData?: boolean
+  dataSource?: { kind: 'user' | 'sample'; note?: string; query?: string }
+  dashboard?: DashboardLayout
+}
+
+// A dashboard panel keeps its own data and source; other images share the message's
+function imageContent(chunk: StreamChunk): MessageContent {
+  return chunk.dashboard?.index !== undefined
+    ? { type: 'image', content: chunk.content, dashboardIndex: chunk.dashboard.index, dataSource: chunk.dataSource }
+    : { type: 'image', content: chunk.content }
+}
+
+// Object URLs of binary-delivered images, which stay in memory until revoked
+function blobUrls(messages: ChatMessage[]): Set<string> {
+  const urls = new Set<string>()
+  for (const message of messages) {
+    for (const content of message.contents) {
+      if (content.type === 'image' && content.content.startsWith('blob:')) urls.add(content.content)
+    }
+  }
+  return urls
 }
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:8080'
+// Only needed when the server has API keys configured
+const API_KEY = import.meta.env.VITE_API_KEY || undefined
 
 // Function to shuffle array and return a subset
 function getRandomPrompts(prompts: string[], count: number): string[] {
@@ -39,6 +62,7 @@ export function Chat({ onStatusChange, onSendFunctionReady }: ChatProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const currentMessageRef = useRef<string | null>(null)
+  const imageUrlsRef = useRef<Set<string>>(new Set())
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -66,7 +90,9 @@ export function Chat({ onStatusChange, onSendFunctionReady }: ChatProps) {
           newMessage.contents.push({ type: 'text', content })
         } else if (type === 'image') {
           console.log('[Chat] Adding image to new message, base64 length:', content.length)
-          newMessage.contents.push({ type: 'image', content })
+          newMessage.contents.push(imageContent(chunk))
+          newMessage.sampleData = chunk.sampleData
+          newMessage.dataSource = chunk.dataSource
         } else if (type === 'chartData' && chunk.chartData) {
           console.log('[Chat] Received chartData for new message:', chunk.chartData)
           newMessage.chartData = chunk.chartData
@@ -95,10 +121,19 @@ export function Chat({ onStatusChange, onSendFunctionReady }: ChatProps) {
         }
       } else if (type === 'image') {
         console.log('[Chat] Adding image to existing message, base64 length:', content.length)
-        message.contents = [...message.contents, { type: 'image', content }]
+        message.contents = [...message.contents, imageContent(chunk)]
+        message.sampleData = chunk.sampleData
+        message.dataSource = chunk.dataSource
       } else if (type === 'chartData' && chunk.chartData) {
         console.log('[Chat] Received chartData for existing message:', chunk.chartData)
+        const panel = chunk.dashboard?.index
+        if (panel !== undefined) {
+          message.contents = message.contents.map(c =>
+            c.dashboardIndex === panel ? { ...c, chartData: chunk.chartData } : c)
+        }
         message.chartData = chunk.chartData
+      } else if (type === 'dashboard' && chunk.layout) {
+        message.dashboard = chunk.layout
       } else if (type === 'error') {
         message.contents = [...message.contents, { type: 'text', content: `Error: ${content}` }]
       }
@@ -141,6 +176,7 @@ export function Chat({ onStatusChange, onSendFunctionReady }: ChatProps) {
 
   const { status, send, connect } = useWebSocket({
     url: WS_URL,
+    apiKey: API_KEY,
     onStream: handleStream,
     onConnect: handleConnect,
     onDisconnect: handleDisconnect
@@ -164,6 +200,23 @@ export function Chat({ onStatusChange, onSendFunctionReady }: ChatProps) {
     scrollToBottom()
   }, [messages, scrollToBottom])
 
+  // Revoke image URLs once their message no longer holds them. ChartImage can't do this itself:
+  // it remounts with the same src when a message switches layout.
+  useEffect(() => {
+    const current = blobUrls(messages)
+    for (const url of imageUrlsRef.current) {
+      if (!current.has(url)) URL.revokeObjectURL(url)
+    }
+    imageUrlsRef.current = current
+  }, [messages])
+
+  useEffect(() => {
+    return () => {
+      for (const url of imageUrlsRef.current) URL.revokeObjectURL(url)
+      imageUrlsRef.current = new Set()
+    }
+  }, [])
+
   // Load and randomize prompts on component mount
   useEffect(() => {
     const prompts = promptsConfig.prompts || []
@@ -234,6 +287,9 @@ export function Chat({ onStatusChange, onSendFunctionReady }: ChatProps) {
               isStreaming={message.isStreaming}
               status={message.status}
               chartData={message.chartData}
+              sampleData={message.sampleData}
+              dataSource={message.dataSource}
+              dashboard={message.dashboard}
             />
           ))
         )}
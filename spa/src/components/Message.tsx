@@ -1,9 +1,17 @@
 import { useState } from 'react'
 import { ChartImage } from './ChartImage'
+import { DashboardLayout } from '../hooks/useWebSocket'
 
 export interface MessageContent {
   type: 'text' | 'image'
   content: string
+  // Images of a dashboard: the panel, and that chart's own data and source
+  dashboardIndex?: number
+  chartData?: {
+    labels: string[]
+    datasets: Array<{ label: string; data: number[] }>
+  }
+  dataSource?: { kind: 'user' | 'sample'; note?: string; query?: string }
 }
 
 export interface MessageProps {
@@ -16,9 +24,15 @@ export interface MessageProps {
     labels: string[]
     datasets: Array<{ label: string; data: number[] }>
   }
+  // The chart shows placeholder values because no valid chart could be generated
+  sampleData?: boolean
+  // Whether the chart plots the user's own values or illustrative ones
+  dataSource?: { kind: 'user' | 'sample'; note?: string; query?: string }
+  // Set when the images are the panels of a dashboard
+  dashboard?: DashboardLayout
 }
 
-export function Message({ id, role, contents, isStreaming, status, chartData }: MessageProps) {
+export function Message({ id, role, contents, isStreaming, status, chartData, sampleData, dataSource, dashboard }: MessageProps) {
   const [showExplanation, setShowExplanation] = useState(false)
   const roleLabel = role === 'user' ? 'You' : 'Assistant'
 
@@ -30,6 +44,9 @@ export function Message({ id, role, contents, isStreaming, status, chartData }:
   // Separate text and image contents
   const textContents = contents.filter(c => c.type === 'text')
   const imageContents = contents.filter(c => c.type === 'image')
+  const panels = imageContents.filter(c => c.dashboardIndex !== undefined)
+  // Panels are laid out as soon as they arrive; the layout only adds the title and column count
+  const isDashboard = panels.length > 0
 
   return (
     <div className={`message message-${role}`}>
@@ -42,13 +59,48 @@ export function Message({ id, role, contents, isStreaming, status, chartData }:
           <div className="message-status">{status}</div>
         )}
 
+        {sampleData && hasImage && (
+          <div className="sample-data-notice">
+            Sample data: the chart below uses placeholder values because no valid chart could be generated.
+          </div>
+        )}
+
+        {dataSource && !sampleData && hasImage && !isDashboard && (
+          <div className={`data-source-note data-source-${dataSource.kind}`}>
+            {dataSource.kind === 'user' ? 'Data: your values' : 'Data: illustrative sample values'}
+            {dataSource.note && ` (${dataSource.note})`}
+            {dataSource.query && <pre className="data-source-query">{dataSource.query}</pre>}
+          </div>
+        )}
+
+        {isDashboard && (
+          <div className="dashboard">
+            {dashboard?.title && <div className="dashboard-title">{dashboard.title}</div>}
+            <div
+              className="dashboard-grid"
+              style={{ gridTemplateColumns: `repeat(${dashboard?.columns || Math.min(panels.length, 2)}, minmax(0, 1fr))` }}
+            >
+              {panels.map(content => (
+                <div key={`${id}-panel-${content.dashboardIndex}`} className="dashboard-panel">
+                  {content.dataSource && (
+                    <div className={`data-source-note data-source-${content.dataSource.kind}`}>
+                      {content.dataSource.kind === 'user' ? 'Data: your values' : 'Data: illustrative sample values'}
+                    </div>
+                  )}
+                  <ChartImage src={content.content} alt="Generated chart" chartData={content.chartData} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {isChartResponse ? (
           <>
             {/* Show images first */}
-            {imageContents.map((content, index) => (
+            {imageContents.filter(c => c.dashboardIndex === undefined).map((content, index) => (
               <div key={`${id}-img-${index}`} className="message-content">
                 <ChartImage 
-                  base64={content.content} 
+                  src={content.content} 
                   alt="Generated chart"
                   chartData={chartData}
                 />
@@ -78,12 +130,12 @@ export function Message({ id, role, contents, isStreaming, status, chartData }:
           </>
         ) : (
           // Regular message rendering
-          contents.map((content, index) => (
+          contents.filter(c => c.dashboardIndex === undefined).map((content, index) => (
             <div key={`${id}-${index}`} className="message-content">
               {content.type === 'text' ? (
                 <div className="message-text">{content.content}</div>
               ) : (
-                <ChartImage base64={content.content} alt="Generated chart" chartData={chartData} />
+                <ChartImage src={content.content} alt="Generated chart" chartData={chartData} />
               )}
             </div>
           ))
@@ -3,20 +3,70 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error'
 
 export interface StreamChunk {
-  type: 'text' | 'image' | 'status' | 'error' | 'chartData'
+  type: 'text' | 'image' | 'status' | 'error' | 'chartData' | 'dashboard'
   content: string
   streaming: boolean
   messageId: string
+  // Position in the message's stream, used to resume it after a reconnect
+  seq?: number
+  chartId?: string
+  // Set on image and chartData chunks when the chart shows placeholder values, not real data
+  sampleData?: boolean
+  // Set on image and chartData chunks: whether the values are the user's own data or illustrative
+  dataSource?: { kind: 'user' | 'sample'; note?: string; query?: string }
+  // Set on image and chartData chunks of a dashboard; index is the panel, absent on a composed grid image
+  dashboard?: { id: string; index?: number }
+  // Set on the dashboard chunk, which follows the dashboard's images
+  layout?: DashboardLayout
+  // Set when the image is not inline: binary frames follow on the socket, or the image is fetched by URL
+  image?: {
+    id: string
+    delivery: 'binary' | 'url'
+    mimeType: string
+    byteLength?: number
+    url?: string
+  }
   chartData?: {
     labels: string[]
     datasets: Array<{ label: string; data: number[] }>
   }
 }
 
+export interface DashboardLayout {
+  id: string
+  title: string
+  // separate: one image per chart, arranged here; grid: one composed image
+  mode: 'separate' | 'grid'
+  columns: number
+  charts: Array<{ index: number; title: string; type: string; row: number; column: number; chartId?: string }>
+}
+
+// Session token is kept per browser tab so a reload or reconnect resumes the same conversation
+const SESSION_TOKEN_KEY = 'mcp-session-token'
+
+export type ImageDelivery = 'base64' | 'binary' | 'url'
+
+export interface ConnectResult {
+  clientId: string
+  status: string
+  sessionId: string
+  sessionToken: string
+  resumed: boolean
+  imageDelivery?: ImageDelivery
+  authRequired?: boolean
+  authenticated?: boolean
+  // Set when the session was resumed: its recent responses, which may have been cut off
+  streams?: Array<{ messageId: string; lastSeq: number; completed: boolean }>
+}
+
 export interface UseWebSocketOptions {
   url: string
   reconnectInterval?: number
   maxReconnectAttempts?: number
+  // How chart images should be sent; the server falls back to base64 if it can't honour it
+  imageDelivery?: ImageDelivery
+  // Sent with connect when the server requires authentication
+  apiKey?: string
   onStream?: (chunk: StreamChunk) => void
   onConnect?: (clientId: string) => void
   onDisconnect?: () => void
@@ -46,6 +96,8 @@ export function useWebSocket(options: UseWebSocketOptions) {
     url,
     reconnectInterval = 3000,
     maxReconnectAttempts = 5,
+    imageDelivery = 'binary',
+    apiKey,
     onStream,
     onConnect,
     onDisconnect
@@ -62,33 +114,146 @@ export function useWebSocket(options: UseWebSocketOptions) {
     reject: (error: Error) => void
   }>>(new Map())
   const requestIdRef = useRef(0)
+  // Image chunks whose binary frame hasn't arrived yet, and frames that arrived before their chunk
+  const pendingImagesRef = useRef<Map<string, StreamChunk>>(new Map())
+  const receivedImagesRef = useRef<Map<string, string>>(new Map())
+  // Last seq received per messageId, so a resumed session can pick up where the socket dropped
+  const streamSeqRef = useRef<Map<string, number>>(new Map())
+
+  const deliverImage = useCallback((chunk: StreamChunk, objectUrl: string) => {
+    onStream?.({ ...chunk, content: objectUrl })
+  }, [onStream])
+
+  /**
+   * Replay what we missed of responses that were streaming when the socket dropped,
+   * and keep receiving the ones that are still running
+   */
+  const resumeStreams = useCallback((ws: WebSocket, streams: NonNullable<ConnectResult['streams']>) => {
+    const seen = streamSeqRef.current
+    const resumable = new Map<string, number>()
+
+    for (const stream of streams) {
+      const lastSeen = seen.get(stream.messageId)
+      // Only streams this tab started
+      if (lastSeen === undefined) continue
+      resumable.set(stream.messageId, lastSeen)
+      if (stream.completed && stream.lastSeq <= lastSeen) continue
+
+      const request: JsonRpcRequest = {
+        jsonrpc: '2.0',
+        id: `resume:${stream.messageId}`,
+        method: 'resumeStream',
+        params: { messageId: stream.messageId, afterSeq: lastSeen }
+      }
+      ws.send(JSON.stringify(request))
+    }
+
+    // The server no longer has the other streams
+    streamSeqRef.current = resumable
+  }, [])
 
   const connect = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) return
 
     setStatus('connecting')
     const ws = new WebSocket(url)
+    ws.binaryType = 'arraybuffer'
+    let confirmed = false
 
     ws.onopen = () => {
       setStatus('connected')
       reconnectAttemptsRef.current = 0
+
+      // Negotiate image delivery, resuming the previous session if we have one
+      const sessionToken = sessionStorage.getItem(SESSION_TOKEN_KEY)
+      const request: JsonRpcRequest = {
+        jsonrpc: '2.0',
+        id: 'connect',
+        method: 'connect',
+        params: {
+          imageDelivery,
+          ...(sessionToken ? { sessionToken } : {}),
+          ...(apiKey ? { apiKey } : {})
+        }
+      }
+      ws.send(JSON.stringify(request))
     }
 
     ws.onmessage = (event) => {
+      // Binary frames carry chart images announced by an earlier image chunk
+      if (event.data instanceof ArrayBuffer) {
+        try {
+          const { imageId, objectUrl } = decodeImageFrame(event.data)
+          const chunk = pendingImagesRef.current.get(imageId)
+          if (chunk) {
+            pendingImagesRef.current.delete(imageId)
+            deliverImage(chunk, objectUrl)
+          } else {
+            receivedImagesRef.current.set(imageId, objectUrl)
+          }
+        } catch (error) {
+          console.error('Failed to decode image frame:', error)
+        }
+        return
+      }
+
       try {
         const message: JsonRpcResponse = JSON.parse(event.data)
 
         // Handle stream messages
         if (message.method === 'stream' && message.params) {
-          onStream?.(message.params)
+          const chunk = message.params
+          if (chunk.seq !== undefined) {
+            streamSeqRef.current.set(chunk.messageId, chunk.seq)
+          }
+          if (chunk.type === 'image' && chunk.image?.delivery === 'binary') {
+            const objectUrl = receivedImagesRef.current.get(chunk.image.id)
+            if (objectUrl) {
+              receivedImagesRef.current.delete(chunk.image.id)
+              deliverImage(chunk, objectUrl)
+            } else {
+              pendingImagesRef.current.set(chunk.image.id, chunk)
+            }
+            return
+          }
+          if (chunk.type === 'image' && chunk.image?.delivery === 'url' && chunk.image.url) {
+            onStream?.({ ...chunk, content: chunk.image.url })
+            return
+          }
+          onStream?.(chunk)
+          return
+        }
+
+        // The server is draining: responses to requests already sent still arrive, then it
+        // closes the socket and onclose reconnects (to another instance behind a load balancer)
+        if (message.method === 'shutdown') {
+          console.info('Server shutting down, will reconnect')
+          return
+        }
+
+        // The server rejected our connect, e.g. a missing or invalid API key
+        if (message.id === 'connect' && message.error) {
+          console.error('Connection rejected:', message.error.message)
+          setStatus('error')
           return
         }
 
-        // Handle connection confirmation
+        // Handle connection confirmation: the server greets every new socket, then answers our
+        // connect request. Only that answer lists resumable streams, and only once per socket
+        // is the client reported as connected.
         if (message.result && typeof message.result === 'object' && 'clientId' in message.result) {
-          const result = message.result as { clientId: string }
-          setClientId(result.clientId)
-          onConnect?.(result.clientId)
+          const result = message.result as ConnectResult
+          if (result.sessionToken) {
+            sessionStorage.setItem(SESSION_TOKEN_KEY, result.sessionToken)
+          }
+          if (result.streams) {
+            resumeStreams(ws, result.streams)
+          }
+          if (!confirmed) {
+            confirmed = true
+            setClientId(result.clientId)
+            onConnect?.(result.clientId)
+          }
           return
         }
 
@@ -110,6 +275,12 @@ export function useWebSocket(options: UseWebSocketOptions) {
     }
 
     ws.onclose = () => {
+      // Frames whose chunk never arrived were never handed to a message, so nothing else frees them
+      for (const objectUrl of receivedImagesRef.current.values()) {
+        URL.revokeObjectURL(objectUrl)
+      }
+      pendingImagesRef.current.clear()
+      receivedImagesRef.current.clear()
       setStatus('disconnected')
       setClientId(null)
       onDisconnect?.()
@@ -128,7 +299,7 @@ export function useWebSocket(options: UseWebSocketOptions) {
     }
 
     wsRef.current = ws
-  }, [url, reconnectInterval, maxReconnectAttempts, onStream, onConnect, onDisconnect])
+  }, [url, reconnectInterval, maxReconnectAttempts, imageDelivery, apiKey, onStream, onConnect, onDisconnect, deliverImage, resumeStreams])
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -187,3 +358,16 @@ export function useWebSocket(options: UseWebSocketOptions) {
     send
   }
 }
+
+/**
+ * Decode a binary image frame: [uint32 BE header length][JSON header][image bytes]
+ */
+function decodeImageFrame(buffer: ArrayBuffer): { imageId: string; objectUrl: string } {
+  const headerLength = new DataView(buffer).getUint32(0)
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 4, headerLength))) as {
+    imageId: string
+    mimeType: string
+  }
+  const blob = new Blob([buffer.slice(4 + headerLength)], { type: header.mimeType })
+  return { imageId: header.imageId, objectUrl: URL.createObjectURL(blob) }
+}
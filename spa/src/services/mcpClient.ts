@@ -7,6 +7,8 @@ export interface MCPTool {
     type: string
     properties: Record<string, unknown>
   }
+  // Streaming tools emit LLM tokens as `stream` notifications while they run
+  streaming: boolean
 }
 
 export interface ChatResponse {
@@ -17,6 +19,41 @@ export interface ChatResponse {
 export interface ChartResponse {
   success: boolean
   messageId: string
+  chartId?: string
+}
+
+export interface ChartRecord {
+  chartId: string
+  chartData: { labels: string[]; datasets: Array<{ label: string; data: number[] }> }
+  chartOptions: { type: 'bar' | 'line' | 'pie' | 'doughnut'; title?: string }
+  prompt?: string
+  model?: string
+  sessionId?: string
+  apiKeyLabel?: string
+  mimeType: string
+  byteSize: number
+  createdAt: string
+  updatedAt: string
+}
+
+// A step applied to the data before rendering; see the server's Data Transforms for each op's fields
+export interface DataTransform {
+  op: 'sort' | 'top_n' | 'filter' | 'aggregate' | 'pivot' | 'percent' | 'cumulative' | 'moving_average'
+  [field: string]: unknown
+}
+
+export interface DatasetInfo {
+  name: string
+  format: 'csv' | 'tsv' | 'markdown' | 'json'
+  columns: Array<{ name: string; type: 'number' | 'date' | 'string' }>
+  rowCount: number
+  byteSize: number
+  modifiedAt: string
+}
+
+export interface DatabaseInfo {
+  name: string
+  tables: Array<{ name: string; columns: Array<{ name: string; type: string }> }>
 }
 
 export class MCPClient {
@@ -41,13 +78,15 @@ export class MCPClient {
   async generateDataChart(
     chartType: 'bar' | 'line' | 'pie' | 'doughnut',
     data: { labels: string[]; datasets: Array<{ label: string; data: number[] }> },
-    options?: { title?: string }
+    options?: { title?: string },
+    transforms?: DataTransform[]
   ): Promise<ChartResponse> {
     return this.sendFn('generateChart', {
       type: 'data',
       data: {
         data,
-        options: { type: chartType, ...options }
+        options: { type: chartType, ...options },
+        transforms
       }
     })
   }
@@ -59,6 +98,38 @@ export class MCPClient {
     })
   }
 
+  async getChart(chartId: string, includeImage = true): Promise<{ chart: ChartRecord; image?: string }> {
+    return this.sendFn('getChart', { chartId, includeImage })
+  }
+
+  async listCharts(options?: { limit?: number; offset?: number; session?: boolean }): Promise<{ charts: ChartRecord[]; total: number }> {
+    return this.sendFn('listCharts', options)
+  }
+
+  async deleteChart(chartId: string): Promise<{ chartId: string; deleted: boolean }> {
+    return this.sendFn('deleteChart', { chartId })
+  }
+
+  async listDatasets(): Promise<{ datasets: DatasetInfo[] }> {
+    return this.sendFn('listDatasets')
+  }
+
+  async previewDataset(name: string, rows?: number): Promise<{ dataset: DatasetInfo; rows: string[][] }> {
+    return this.sendFn('previewDataset', { name, rows })
+  }
+
+  async registerDatabase(name: string, path: string): Promise<{ database: DatabaseInfo }> {
+    return this.sendFn('registerDatabase', { name, path })
+  }
+
+  async listDatabases(): Promise<{ databases: DatabaseInfo[] }> {
+    return this.sendFn('listDatabases')
+  }
+
+  async unregisterDatabase(name: string): Promise<{ name: string; removed: boolean }> {
+    return this.sendFn('unregisterDatabase', { name })
+  }
+
   async getStatus(): Promise<{
     mcpServer: { status: string; port: number }
     ollamaServer: { status: string; host: string }